@@ -1,172 +1,434 @@
-import { useState, useEffect } from 'react';
-import MovieForm from './components/MovieForm/MovieForm';
-import TVShowForm from './components/TVShowForm/TVShowForm';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import MediaForm from './components/MediaForm/MediaForm';
 import { DataTable } from './components/DataTable/DataTable';
 import { DeleteModal } from './components/DeleteModal/DeleteModal';
+import { FilterBar } from './components/FilterBar/FilterBar';
+import { LoginForm } from './components/LoginForm/LoginForm';
+import { BulkDeleteModal } from './components/BulkDeleteModal/BulkDeleteModal';
+import { BulkEditModal } from './components/BulkEditModal/BulkEditModal';
+import { ImportModal } from './components/ImportModal/ImportModal';
+import { ExportModal } from './components/ExportModal/ExportModal';
+import { SeasonList } from './components/SeasonList/SeasonList';
+import { ItemDetail } from './components/ItemDetail/ItemDetail';
+import { TrashList } from './components/TrashList/TrashList';
+import { Dashboard } from './components/Dashboard/Dashboard';
+import { ItemHistory } from './components/ItemHistory/ItemHistory';
+import { ConflictResolver } from './components/ConflictResolver/ConflictResolver';
+import { ColumnSettings } from './components/ColumnSettings/ColumnSettings';
+import { Modal } from './components/Modal/Modal';
+import { ShortcutHelp } from './components/ShortcutHelp/ShortcutHelp';
 import { movieApi, tvShowApi } from './lib/api';
-import type { Movie, TVShow, MediaItem, ColumnValue, MovieFormData, TVShowFormData } from './types';
+import { bulkDeleteItems, bulkUpdateItems, createItem, deleteItem, invalidateTab, isBeingCreated, patchItem, tabForItem, updateItem } from './lib/mediaCache';
+import type { ReplayReport } from './lib/mediaCache';
+import { getPendingIds } from './lib/offlineQueue';
+import { columnsForTab } from './lib/columns';
+import { mediaForms } from './lib/mediaForms';
+import { snapshotFormData } from './lib/history';
+import { conflictingCopy } from './lib/conflicts';
+import { formatTimestamp } from './lib/format';
+import { TITLE_ACCESSOR } from './lib/columnLayout';
+import { loadJSON, saveJSON } from './lib/storage';
+import { navigate, replaceSearchParam, useLocation } from './lib/router';
+import { buildPath, parseRoute, DEFAULT_ROUTE } from './lib/routes';
+import type { AppRoute, RouteView } from './lib/routes';
+import { useStableValue } from './hooks/useStableValue';
+import { useMediaList } from './hooks/useMediaList';
+import { useToast } from './hooks/useToast';
+import { useAuth } from './hooks/useAuth';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import { useColumnLayout } from './hooks/useColumnLayout';
+import { useShortcuts } from './hooks/useShortcuts';
+import { subscribeSessionExpired } from './lib/auth';
+import { toApiError } from './lib/errors';
+import type { FieldErrors } from './lib/errors';
+import type { TVShow, ItemVersion, MediaItem, MediaTab, ListTab, SortState, MediaFilters, MediaFormData, FieldChanges, LoginCredentials, BulkEditChanges } from './types';
 import './App.css';
 
+const SORT_STORAGE_KEY = 'media-manager:sort';
+// How long the "Undo" action stays available after a delete
+const UNDO_DURATION = 8000;
+
+const TAB_LABELS: Record<ListTab, string> = {
+  movies: 'Movies',
+  tvshows: 'TV Shows',
+  all: 'All',
+};
+
+interface RejectedSubmission {
+  view: 'new' | 'edit';
+  itemId?: string;
+  values: MediaFormData;
+  errors: FieldErrors;
+}
+
+// An edit the server rejected because someone else saved the item first
+interface EditConflict {
+  base: MediaItem;
+  mine: MediaFormData;
+  theirs: MediaItem;
+}
+
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'movies' | 'tvshows'>('movies');
-  const [data, setData] = useState<MediaItem[]>([]);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
-
-  const fetchData = async () => {
-    try {
-      setIsLoading(true);
-      const api = activeTab === 'movies' ? movieApi : tvShowApi;
-      console.log('Fetching data from:', api);
-      const response = await api.getAll(page, 10);
-      console.log('API Response:', response);
-      
-      if (page === 1) {
-        setData(response.data.data);
-      } else {
-        setData(prev => [...prev, ...response.data.data]);
-      }
-      setHasMore(response.data.meta.hasMore);
-    } catch (error) {
-      console.error('Failed to fetch data:', error);
-    } finally {
-      setIsLoading(false);
+  const location = useLocation();
+  const matchedRoute = parseRoute(location.pathname, location.search);
+  const route = matchedRoute ?? DEFAULT_ROUTE;
+  const activeTab = route.tab;
+  const isTrash = route.view === 'trash';
+  const isDashboard = route.view === 'dashboard';
+  // Pages that aren't one of the lists hide the list actions
+  const isListPage = !isTrash && !isDashboard;
+  // Dialogs in the merged list work on the item's own type
+  const itemTab = activeTab === 'all' ? route.itemTab : activeTab;
+
+  const [fetchedItem, setFetchedItem] = useState<MediaItem | null>(null);
+  const [storedSort, setStoredSort] = useState<Partial<Record<ListTab, SortState | null>>>(() =>
+    loadJSON(SORT_STORAGE_KEY, {})
+  );
+  // Type chosen for a new item in the "All" tab
+  const [newItemTab, setNewItemTab] = useState<MediaTab>('movies');
+  const [rejectedSubmission, setRejectedSubmission] = useState<RejectedSubmission | null>(null);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const { showToast } = useToast();
+  const { user, isAuthenticated, can, signIn, signOut } = useAuth();
+  const columnLayout = useColumnLayout(activeTab, user?.id);
+  const canCreate = can('create');
+  const canUpdate = can('update');
+  const canDelete = can('delete');
+
+  const handleReplayReport = useCallback((report: ReplayReport) => {
+    if (report.synced > 0) {
+      showToast({ type: 'success', message: `Synced ${report.synced} offline ${report.synced === 1 ? 'change' : 'changes'}.` });
+    }
+    report.failed.forEach(({ item, message }) => {
+      showToast({ type: 'error', title: `Could not sync "${item.title}"`, message });
+    });
+    report.conflicts.forEach(offlineConflict => {
+      const { theirs } = offlineConflict;
+      const review = () => {
+        setConflict(offlineConflict);
+        setFetchedItem(theirs);
+        navigate(buildPath({ ...DEFAULT_ROUTE, tab: tabForItem(theirs), view: 'edit', id: theirs.id }), { state: { dialog: true } });
+      };
+      showToast({
+        type: 'error',
+        title: 'Edit conflict',
+        message: `"${theirs.title}" was changed by someone else while you were offline.`,
+        action: { label: 'Review', onClick: review },
+        duration: 0,
+      });
+    });
+  }, [showToast]);
+  const { isOnline, pendingIds } = useOfflineSync(handleReplayReport);
+
+  // The last list query per tab, so switching tabs returns to the same view
+  const lastListRoute = useRef<Partial<Record<ListTab, AppRoute>>>({});
+
+  // An explicit sort in the URL wins; otherwise fall back to the last one used on this tab
+  const sort = useStableValue(route.sort ?? storedSort[activeTab] ?? null);
+  const filters = useStableValue(route.filters);
+  const query = useMemo(() => ({ sort, filters }), [sort, filters]);
+  // A reloaded URL may point past page 1; that many pages are restored on the first fetch
+  const list = useMediaList(activeTab, query, route.page);
+
+  // Selection belongs to the list it was made in and resets when the tab, sort or filters change
+  const [selection, setSelection] = useState<{ key: string; ids: Set<string> }>({ key: '', ids: new Set() });
+  // Targets are captured when the dialog opens, since optimistic updates change the list underneath it
+  const [bulkAction, setBulkAction] = useState<{ type: 'edit' | 'delete'; items: MediaItem[] } | null>(null);
+  const [importTab, setImportTab] = useState<MediaTab | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const selectedIds = selection.key === list.key ? selection.ids : new Set<string>();
+  const selectedItems = list.items.filter(item => selectedIds.has(item.id));
+  const setSelectedIds = (ids: Set<string>) => setSelection({ key: list.key, ids });
+
+  // Dialogs pushed onto history are closed with "back" so the browser button behaves the same
+  const openView = (view: RouteView, item?: MediaItem) => {
+    navigate(buildPath({ ...route, view, id: item?.id, itemTab: item && tabForItem(item) }), { state: { dialog: true } });
+  };
+
+  // Moving between dialogs (detail -> edit) replaces the entry, so closing still returns to the list
+  const switchView = (view: RouteView, item: MediaItem) => {
+    navigate(buildPath({ ...route, view, id: item.id, itemTab: tabForItem(item) }), { replace: true, state: window.history.state });
+  };
+
+  const closeDialog = () => {
+    setRejectedSubmission(null);
+    setConflict(null);
+    if ((window.history.state as { dialog?: boolean } | null)?.dialog) {
+      window.history.back();
+    } else {
+      navigate(buildPath({ ...route, view: 'list', id: undefined, itemTab: undefined }), { replace: true });
     }
   };
 
+  // List shortcuts only apply while no dialog is open over the list
+  const isListShown = isListPage && route.view === 'list';
+  useShortcuts({
+    n: isListShown && canCreate ? () => openView('new') : undefined,
+    '/': isListShown ? () => document.getElementById('filter-search')?.focus() : undefined,
+    '?': () => setIsShortcutHelpOpen(true),
+  });
+
+  useEffect(() => {
+    if (!matchedRoute) {
+      navigate(buildPath(DEFAULT_ROUTE), { replace: true });
+    }
+  }, [matchedRoute]);
+
+  useEffect(() => {
+    if (route.view === 'list') {
+      lastListRoute.current[route.tab] = route;
+    }
+  });
+
+  // Dialogs that change data need a session; send deep links through the login screen
+  const needsSignIn = !isAuthenticated && ['new', 'edit', 'delete', 'trash'].includes(route.view);
+  useEffect(() => {
+    if (needsSignIn) {
+      navigate(buildPath({ ...DEFAULT_ROUTE, view: 'login', next: location.pathname + location.search }), { replace: true });
+    }
+  }, [needsSignIn, location.pathname, location.search]);
+
+  // Signed-in users without the right role are redirected to what they may see
+  let permissionRedirect: string | null = null;
+  if (isAuthenticated && route.view === 'edit' && !canUpdate) {
+    permissionRedirect = buildPath({ ...route, view: 'view' });
+  } else if (isAuthenticated && route.view === 'new' && !canCreate) {
+    permissionRedirect = buildPath({ ...route, view: 'list' });
+  } else if (isAuthenticated && isTrash && !canDelete) {
+    permissionRedirect = buildPath(DEFAULT_ROUTE);
+  }
+  useEffect(() => {
+    if (permissionRedirect) {
+      navigate(permissionRedirect, { replace: true });
+    }
+  }, [permissionRedirect]);
+
+  useEffect(() => subscribeSessionExpired(() => {
+    showToast({ type: 'error', title: 'Signed out', message: 'Your session has expired. Please sign in again.' });
+  }), [showToast]);
+
+  useEffect(() => {
+    saveJSON(SORT_STORAGE_KEY, storedSort);
+  }, [storedSort]);
+
+  // Keep the loaded page count in the URL so a reload restores the same rows
   useEffect(() => {
-    setPage(1);
-    setData([]);
-    fetchData();
-  }, [activeTab]); // Re-fetch when tab changes
+    if (list.page > 0) {
+      replaceSearchParam('page', list.page > 1 ? String(list.page) : null);
+    }
+  }, [list.page]);
 
+  // The detail view always shows the server's current copy; other dialogs only
+  // fetch for deep links to rows that aren't loaded yet
+  const loadedItem = route.id ? list.items.find(item => item.id === route.id) : undefined;
+  const needsFetch = Boolean(route.id && fetchedItem?.id !== route.id && (route.view === 'view' || !loadedItem));
+  if (!route.id && fetchedItem) {
+    // Forget the fetched copy once its dialog closes, so reopening refetches it
+    setFetchedItem(null);
+  }
   useEffect(() => {
-    if (page > 1) {
-      fetchData();
+    if (!needsFetch || !route.id || !itemTab) return;
+    const api = itemTab === 'movies' ? movieApi : tvShowApi;
+    api.getById(route.id)
+      .then(response => setFetchedItem(response.data))
+      .catch(error => {
+        console.error('Failed to fetch item:', error);
+        showToast({ type: 'error', title: 'Could not open item', message: toApiError(error).message });
+        navigate(buildPath({ ...DEFAULT_ROUTE, tab: activeTab }), { replace: true });
+      });
+  }, [needsFetch, route.id, itemTab, activeTab, showToast]);
+
+  const matchingFetchedItem = fetchedItem?.id === route.id ? fetchedItem : null;
+  const selectedItem = route.view === 'view'
+    ? matchingFetchedItem ?? loadedItem ?? null
+    : loadedItem ?? matchingFetchedItem;
+  const rejectedAdd = rejectedSubmission?.view === 'new' ? rejectedSubmission : null;
+  const addTab = activeTab !== 'all' ? activeTab : rejectedAdd ? tabForItem(rejectedAdd.values) : newItemTab;
+  const rejectedEdit = rejectedSubmission?.view === 'edit' && rejectedSubmission.itemId === selectedItem?.id
+    ? rejectedSubmission
+    : null;
+
+  const leaveLogin = () => {
+    navigate(route.next ?? buildPath(lastListRoute.current.movies ?? DEFAULT_ROUTE), { replace: true });
+  };
+
+  const handleSignIn = async (credentials: LoginCredentials) => {
+    const signedInUser = await signIn(credentials);
+    showToast({ type: 'success', message: `Welcome back, ${signedInUser.name}.` });
+    leaveLogin();
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    showToast({ type: 'info', message: 'You have been signed out.' });
+  };
+
+  const handleTabChange = (tab: ListTab) => {
+    const previous = lastListRoute.current[tab];
+    navigate(buildPath(previous ?? { ...DEFAULT_ROUTE, tab }));
+  };
+
+  const handleSortChange = (nextSort: SortState | null) => {
+    setStoredSort(prev => ({ ...prev, [activeTab]: nextSort }));
+    navigate(buildPath({ ...route, sort: nextSort, page: 1 }), { replace: true });
+  };
+
+  // Inline edits send just the changed field; DataTable shows their progress
+  // A cleared cell is sent as null: JSON drops undefined, so the server would keep the old value
+  const handleCellSave = (item: MediaItem, field: string, value: unknown) =>
+    patchItem(item, { [field]: value ?? null } as FieldChanges<MediaFormData>, list.key);
+
+  const handleColumnResize = (accessor: string, width?: number) => {
+    const widths = { ...columnLayout.layout.widths };
+    if (width === undefined) {
+      delete widths[accessor];
+    } else {
+      widths[accessor] = width;
+    }
+    columnLayout.setLayout({ ...columnLayout.layout, widths });
+  };
+
+  const handleFiltersChange = (nextFilters: MediaFilters) => {
+    navigate(buildPath({ ...route, filters: nextFilters, page: 1 }), { replace: true });
+  };
+
+  const closeBulkAction = (failedIds: string[]) => {
+    setBulkAction(null);
+    setSelectedIds(new Set(failedIds));
+  };
+
+  const handleBulkEdit = (changes: BulkEditChanges) => bulkUpdateItems(bulkAction?.items ?? [], changes);
+
+  const handleBulkDelete = () => bulkDeleteItems(bulkAction?.items ?? []);
+
+  const handleImportCreate = async (formData: MediaFormData) => {
+    const response = formData.type === 'movie' ? await movieApi.create(formData) : await tvShowApi.create(formData);
+    return response.data;
+  };
+
+  const closeImport = (createdCount: number) => {
+    setImportTab(null);
+    if (createdCount > 0 && importTab) {
+      invalidateTab(importTab);
+      showToast({ type: 'success', message: `Imported ${createdCount} ${createdCount === 1 ? 'item' : 'items'}.` });
     }
-  }, [page]); // Only fetch when page changes and is greater than 1
+  };
+
+  const typeLabel = (type: MediaItem['type']) => (type === 'movie' ? 'Movie' : 'TV show');
 
-  const handleAddMovie = async (formData: MovieFormData) => {
+  // Queued changes say so, since they haven't reached the server yet
+  const savedVerb = (itemId: string, verb: string) =>
+    getPendingIds().has(itemId) ? `${verb} offline and will sync when you're back online` : verb;
+
+  // A server-side validation failure reopens the dialog with what the user
+  // typed and the field messages; anything else is reported as a toast.
+  const reportFailure = (
+    error: unknown,
+    title: string,
+    submission?: { view: 'new' | 'edit'; values: MediaFormData; item?: MediaItem }
+  ) => {
+    const apiError = toApiError(error);
+    if (submission && apiError.kind === 'validation' && Object.keys(apiError.fieldErrors).length > 0) {
+      setRejectedSubmission({
+        view: submission.view,
+        itemId: submission.item?.id,
+        values: submission.values,
+        errors: apiError.fieldErrors,
+      });
+      openView(submission.view, submission.item);
+    }
+    showToast({ type: 'error', title, message: apiError.message });
+  };
+
+  // Mutations update the cached lists optimistically, so dialogs close right away
+  const handleAdd = async (formData: MediaFormData) => {
+    closeDialog();
     try {
-      await movieApi.create(formData);
-      setIsAddModalOpen(false);
-      setPage(1);
-      setData([]);
-      fetchData();
+      const created = await createItem(formData, list.key);
+      showToast({ type: 'success', message: `${typeLabel(formData.type)} "${formData.title}" ${savedVerb(created.id, 'added')}.` });
     } catch (error) {
-      console.error('Failed to add movie:', error);
+      console.error(`Failed to add ${typeLabel(formData.type)}:`, error);
+      reportFailure(error, `Could not add ${typeLabel(formData.type).toLowerCase()}`, { view: 'new', values: formData });
     }
   };
 
-  const handleEditMovie = async (formData: MovieFormData) => {
-    if (!selectedItem) return;
+  // `item` is the copy the edit was based on; its `updatedAt` guards against overwriting newer changes
+  const saveEdit = async (item: MediaItem, formData: MediaFormData) => {
+    closeDialog();
     try {
-      await movieApi.update(selectedItem.id, formData);
-      setIsEditModalOpen(false);
-      setSelectedItem(null);
-      setPage(1);
-      setData([]);
-      fetchData();
+      const updated = await updateItem(item, formData, list.key);
+      showToast({ type: 'success', message: `${typeLabel(formData.type)} "${formData.title}" ${savedVerb(updated.id, 'updated')}.` });
     } catch (error) {
-      console.error('Failed to update movie:', error);
+      console.error(`Failed to update ${typeLabel(formData.type)}:`, error);
+      const theirs = conflictingCopy(error);
+      if (theirs) {
+        // Reopen the edit dialog on the saved copy, comparing it with what the user typed
+        setConflict({ base: item, mine: formData, theirs });
+        setFetchedItem(theirs);
+        openView('edit', theirs);
+        showToast({ type: 'error', title: 'Edit conflict', message: toApiError(error).message });
+        return;
+      }
+      reportFailure(error, `Could not update "${item.title}"`, { view: 'edit', values: formData, item });
     }
   };
 
-  const handleAddTVShow = async (formData: TVShowFormData) => {
+  const handleEdit = async (formData: MediaFormData) => {
+    if (!selectedItem) return;
+    await saveEdit(selectedItem, formData);
+  };
+
+  // Both "overwrite" and "merge" are saved on top of the other person's copy
+  const handleResolveConflict = async (formData: MediaFormData) => {
+    if (!conflict) return;
+    await saveEdit(conflict.theirs, formData);
+  };
+
+  // Reverting saves the old values as a new version, so it can itself be undone from the history
+  const handleRevert = async (version: ItemVersion) => {
+    if (!selectedItem) return;
+    const item = selectedItem;
     try {
-      await tvShowApi.create(formData);
-      setIsAddModalOpen(false);
-      setPage(1);
-      setData([]);
-      fetchData();
+      const updated = await updateItem(item, snapshotFormData(version.snapshot), list.key);
+      setFetchedItem(updated);
+      showToast({ type: 'success', message: `"${updated.title}" reverted to the version of ${formatTimestamp(version.createdAt)}.` });
     } catch (error) {
-      console.error('Failed to add TV show:', error);
+      console.error('Failed to revert item:', error);
+      const theirs = conflictingCopy(error);
+      if (theirs) setFetchedItem(theirs);
+      reportFailure(error, `Could not revert "${item.title}"`);
     }
   };
 
-  const handleEditTVShow = async (formData: TVShowFormData) => {
-    if (!selectedItem) return;
+  const undoDelete = async (item: MediaItem, restore: () => Promise<MediaItem>) => {
     try {
-      await tvShowApi.update(selectedItem.id, formData);
-      setIsEditModalOpen(false);
-      setSelectedItem(null);
-      setPage(1);
-      setData([]);
-      fetchData();
+      await restore();
+      showToast({ type: 'success', message: `${typeLabel(item.type)} "${item.title}" restored.` });
     } catch (error) {
-      console.error('Failed to update TV show:', error);
+      console.error('Failed to restore item:', error);
+      reportFailure(error, `Could not restore "${item.title}"`);
     }
   };
 
   const handleDelete = async () => {
-    if (!selectedItem) return;
+    if (!selectedItem || !canDelete) return;
+    const item = selectedItem;
+    closeDialog();
     try {
-      const api = activeTab === 'movies' ? movieApi : tvShowApi;
-      await api.delete(selectedItem.id);
-      setIsDeleteModalOpen(false);
-      setSelectedItem(null);
-      setPage(1);
-      setData([]);
-      fetchData();
+      const restore = await deleteItem(item);
+      showToast({
+        type: 'success',
+        message: `${typeLabel(item.type)} "${item.title}" ${savedVerb(item.id, 'moved to the trash')}.`,
+        action: { label: 'Undo', onClick: () => undoDelete(item, restore) },
+        duration: UNDO_DURATION,
+      });
     } catch (error) {
       console.error('Failed to delete item:', error);
+      reportFailure(error, `Could not delete "${item.title}"`);
     }
   };
 
-  const movieColumns = [
-    { header: 'Title', accessor: 'title' as keyof MediaItem },
-    { header: 'Type', accessor: 'type' as keyof MediaItem },
-    { header: 'Director', accessor: 'director' as keyof MediaItem },
-    { 
-      header: 'Budget', 
-      accessor: 'budget' as keyof MediaItem,
-      render: (value: ColumnValue) => value ? `$${Number(value).toLocaleString()}M` : '-'
-    },
-    { header: 'Location', accessor: 'location' as keyof MediaItem },
-    { 
-      header: 'Duration', 
-      accessor: 'duration' as keyof MediaItem,
-      render: (value: ColumnValue) => value ? `${value} min` : '-'
-    },
-    { 
-      header: 'Year/Time', 
-      accessor: 'year' as keyof MediaItem,
-      render: (value: ColumnValue) => value ? value.toString() : '-'
-    }
-  ];
-
-  const tvShowColumns = [
-    { header: 'Title', accessor: 'title' as keyof MediaItem },
-    { header: 'Type', accessor: 'type' as keyof MediaItem },
-    { header: 'Director', accessor: 'director' as keyof MediaItem },
-    { 
-      header: 'Budget', 
-      accessor: 'budget' as keyof MediaItem,
-      render: (value: ColumnValue) => value ? `$${Number(value).toLocaleString()}M/ep` : '-'
-    },
-    { header: 'Location', accessor: 'location' as keyof MediaItem },
-    { 
-      header: 'Duration', 
-      accessor: 'duration' as keyof MediaItem,
-      render: (value: ColumnValue) => value ? `${value} min/ep` : '-'
-    },
-    { 
-      header: 'Year/Time', 
-      accessor: 'startYear' as keyof MediaItem,
-      render: (value: ColumnValue, item: MediaItem) => {
-        if ('endYear' in item && item.endYear) {
-          return `${value}-${item.endYear}`;
-        }
-        return value ? value.toString() : '-';
-      }
-    }
-  ];
-
   return (
     <div className="min-h-screen bg-gray-100">
       <div className="py-4 sm:py-10">
@@ -177,137 +439,359 @@ export default function App() {
             </h1>
             <div className="flex flex-col sm:flex-row sm:items-center gap-4">
               <div className="flex space-x-2">
+                {(Object.keys(TAB_LABELS) as ListTab[]).map(tab => (
+                  <button
+                    key={tab}
+                    className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                      activeTab === tab && isListPage
+                        ? 'bg-indigo-600 text-white shadow-md'
+                        : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+                    }`}
+                    onClick={() => handleTabChange(tab)}
+                  >
+                    {TAB_LABELS[tab]}
+                  </button>
+                ))}
                 <button
                   className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
-                    activeTab === 'movies'
+                    isDashboard
                       ? 'bg-indigo-600 text-white shadow-md'
                       : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
                   }`}
-                  onClick={() => setActiveTab('movies')}
+                  onClick={() => navigate(buildPath({ ...DEFAULT_ROUTE, view: 'dashboard' }))}
                 >
-                  Movies
+                  Dashboard
                 </button>
+                {canDelete && (
+                  <button
+                    className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                      isTrash
+                        ? 'bg-indigo-600 text-white shadow-md'
+                        : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+                    }`}
+                    onClick={() => navigate(buildPath({ ...DEFAULT_ROUTE, view: 'trash' }))}
+                  >
+                    Trash
+                  </button>
+                )}
+              </div>
+              {canCreate && isListPage && (
                 <button
-                  className={`flex-1 sm:flex-none px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
-                    activeTab === 'tvshows'
-                      ? 'bg-indigo-600 text-white shadow-md'
-                      : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
-                  }`}
-                  onClick={() => setActiveTab('tvshows')}
+                  className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors duration-200"
+                  onClick={() => openView('new')}
                 >
-                  TV Shows
+                  <svg
+                    className="w-4 h-4 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 4v16m8-8H4"
+                    />
+                  </svg>
+                  Add New
                 </button>
-              </div>
-              <button
-                className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors duration-200"
-                onClick={() => setIsAddModalOpen(true)}
-              >
-                <svg
-                  className="w-4 h-4 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              )}
+              {/* Import files hold a single type, so they go through that type's tab */}
+              {canCreate && activeTab !== 'all' && isListPage && (
+                <button
+                  className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
+                  onClick={() => setImportTab(activeTab)}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 4v16m8-8H4"
-                  />
-                </svg>
-                Add New
-              </button>
+                  Import
+                </button>
+              )}
+              {isListPage && (
+                <button
+                  className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
+                  onClick={() => setIsExportOpen(true)}
+                >
+                  Export
+                </button>
+              )}
+              {isListPage && (
+                <ColumnSettings
+                  columns={columnsForTab(activeTab)}
+                  layout={columnLayout.layout}
+                  onChange={columnLayout.setLayout}
+                  onReset={columnLayout.reset}
+                />
+              )}
+              <div className="sm:ml-auto flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => setIsShortcutHelpOpen(true)}
+                  aria-keyshortcuts="?"
+                  className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Shortcuts
+                </button>
+                {user ? (
+                  <>
+                    <span className="text-sm text-gray-700">
+                      Signed in as <span className="font-medium">{user.name}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleSignOut}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      Sign out
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => navigate(buildPath({ ...route, view: 'login', next: location.pathname + location.search }))}
+                    className="px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100"
+                  >
+                    Sign in
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         </header>
 
         {/* Add Modal */}
-        {isAddModalOpen && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
-              <div className="p-6">
-                {activeTab === 'movies' ? (
-                  <MovieForm 
-                    onSubmit={handleAddMovie}
-                    onCancel={() => setIsAddModalOpen(false)}
-                  />
-                ) : (
-                  <TVShowForm
-                    onSubmit={handleAddTVShow}
-                    onCancel={() => setIsAddModalOpen(false)}
-                  />
-                )}
-              </div>
+        {route.view === 'new' && canCreate && (
+          <Modal label={`Add ${mediaForms[addTab].noun.toLowerCase()}`} onClose={closeDialog} className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              {activeTab === 'all' && (
+                <div role="radiogroup" aria-label="Type" className="flex space-x-2 mb-4">
+                  {(['movies', 'tvshows'] as const).map(tab => (
+                    <button
+                      key={tab}
+                      type="button"
+                      role="radio"
+                      aria-checked={addTab === tab}
+                      onClick={() => {
+                        setNewItemTab(tab);
+                        setRejectedSubmission(null);
+                      }}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                        addTab === tab
+                          ? 'bg-indigo-600 text-white border-indigo-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {tab === 'movies' ? 'Movie' : 'TV show'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <MediaForm
+                key={addTab}
+                config={mediaForms[addTab]}
+                initialData={rejectedAdd?.values}
+                serverErrors={rejectedAdd?.errors}
+                onSubmit={handleAdd}
+                onCancel={closeDialog}
+              />
             </div>
-          </div>
+          </Modal>
         )}
 
         {/* Edit Modal */}
-        {isEditModalOpen && selectedItem && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
-              <div className="p-6">
-                {activeTab === 'movies' ? (
-                  <MovieForm
-                    initialData={selectedItem as Movie}
-                    onSubmit={handleEditMovie}
-                    onCancel={() => {
-                      setIsEditModalOpen(false);
-                      setSelectedItem(null);
-                    }}
-                  />
-                ) : (
-                  <TVShowForm
-                    initialData={selectedItem as TVShow}
-                    onSubmit={handleEditTVShow}
-                    onCancel={() => {
-                      setIsEditModalOpen(false);
-                      setSelectedItem(null);
-                    }}
-                  />
-                )}
-              </div>
+        {route.view === 'edit' && canUpdate && selectedItem && (
+          <Modal label={`Edit ${selectedItem.title}`} onClose={closeDialog} className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              {conflict?.theirs.id === selectedItem.id ? (
+                <ConflictResolver
+                  key={conflict.theirs.updatedAt}
+                  config={mediaForms[tabForItem(selectedItem)]}
+                  base={conflict.base}
+                  mine={conflict.mine}
+                  theirs={conflict.theirs}
+                  onSave={handleResolveConflict}
+                  onDiscard={closeDialog}
+                />
+              ) : (
+                <MediaForm
+                  config={mediaForms[tabForItem(selectedItem)]}
+                  initialData={{ ...selectedItem, ...rejectedEdit?.values } as MediaItem}
+                  serverErrors={rejectedEdit?.errors}
+                  onSubmit={handleEdit}
+                  onCancel={closeDialog}
+                />
+              )}
             </div>
-          </div>
+          </Modal>
+        )}
+
+        {/* Detail Modal */}
+        {route.view === 'view' && selectedItem && (
+          <Modal label={selectedItem.title} onClose={closeDialog} className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <ItemDetail
+                item={selectedItem}
+                columns={columnsForTab(tabForItem(selectedItem))}
+                onClose={closeDialog}
+                onEdit={canUpdate ? () => switchView('edit', selectedItem) : undefined}
+                onDelete={canDelete ? () => switchView('delete', selectedItem) : undefined}
+              />
+              <ItemHistory item={selectedItem} onRevert={canUpdate ? handleRevert : undefined} />
+            </div>
+          </Modal>
         )}
 
         {/* Delete Modal */}
-        {isDeleteModalOpen && selectedItem && (
+        {route.view === 'delete' && isAuthenticated && selectedItem && (
           <DeleteModal
             item={selectedItem}
+            canDelete={canDelete}
             onConfirm={handleDelete}
-            onCancel={() => {
-              setIsDeleteModalOpen(false);
-              setSelectedItem(null);
-            }}
+            onCancel={closeDialog}
           />
         )}
 
+        {/* Bulk Action Modals */}
+        {bulkAction?.type === 'edit' && canUpdate && (
+          <BulkEditModal items={bulkAction.items} onConfirm={handleBulkEdit} onClose={closeBulkAction} />
+        )}
+        {bulkAction?.type === 'delete' && canDelete && (
+          <BulkDeleteModal items={bulkAction.items} onConfirm={handleBulkDelete} onClose={closeBulkAction} />
+        )}
+
+        {/* Import Modal */}
+        {importTab && canCreate && (
+          <ImportModal key={importTab} tab={importTab} onCreate={handleImportCreate} onClose={closeImport} />
+        )}
+
+        {/* Export Modal */}
+        {isExportOpen && (
+          <ExportModal
+            tab={activeTab}
+            columns={columnsForTab(activeTab)}
+            loadedItems={list.items}
+            hasMore={list.hasMore}
+            query={query}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        {/* Shortcut Help */}
+        {isShortcutHelpOpen && <ShortcutHelp onClose={() => setIsShortcutHelpOpen(false)} />}
+
         {/* Main Content */}
-        <main className="container mx-auto px-4 py-8">
-          <div className="bg-white shadow rounded-lg overflow-hidden">
-            {isLoading ? (
-              <div className="flex justify-center items-center h-64">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
-              </div>
-            ) : (
-              <DataTable
-                data={data}
-                columns={activeTab === 'movies' ? movieColumns : tvShowColumns}
-                onEdit={(item) => {
-                  setSelectedItem(item);
-                  setIsEditModalOpen(true);
-                }}
-                onDelete={(item) => {
-                  setSelectedItem(item);
-                  setIsDeleteModalOpen(true);
-                }}
-                hasMore={hasMore}
-                loadMore={() => setPage((p) => p + 1)}
+        {route.view === 'login' ? (
+          <main className="container mx-auto px-4 py-8">
+            <div className="bg-white shadow rounded-lg max-w-md mx-auto p-6">
+              <LoginForm onSubmit={handleSignIn} onCancel={leaveLogin} />
+            </div>
+          </main>
+        ) : isDashboard ? (
+          <main className="container mx-auto px-4 py-8">
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <Dashboard />
+            </div>
+          </main>
+        ) : isTrash ? (
+          <main className="container mx-auto px-4 py-8">
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              {canDelete && <TrashList />}
+            </div>
+          </main>
+        ) : (
+          <main className="container mx-auto px-4 py-8">
+            <div className="bg-white shadow rounded-lg overflow-clip">
+              <FilterBar
+                filters={filters}
+                onChange={handleFiltersChange}
+                yearLabel={{ movies: 'Release year', tvshows: 'Years aired', all: 'Year' }[activeTab]}
               />
-            )}
-          </div>
-        </main>
+              {(!isOnline || pendingIds.size > 0) && (
+                <div role="status" className="px-4 py-3 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+                  {!isOnline && 'You are offline. Saved data is shown, and changes are kept on this device until the connection returns. '}
+                  {pendingIds.size > 0 && `${pendingIds.size} ${pendingIds.size === 1 ? 'item has' : 'items have'} changes waiting to sync.`}
+                </div>
+              )}
+              {list.error && (
+                <div role="alert" className="flex items-center justify-between gap-4 px-4 py-3 bg-red-50 border-b border-red-200">
+                  <p className="text-sm text-red-700">{list.error.message}</p>
+                  <button
+                    type="button"
+                    onClick={list.retry}
+                    className="text-sm font-medium text-red-700 hover:text-red-900 underline"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
+              {selectedItems.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-indigo-50 border-b border-indigo-100">
+                  <span className="text-sm font-medium text-indigo-900">{selectedItems.length} selected</span>
+                  {canUpdate && (
+                    <button
+                      type="button"
+                      onClick={() => setBulkAction({ type: 'edit', items: selectedItems })}
+                      className="px-3 py-1 text-sm font-medium rounded-md text-indigo-700 bg-white border border-indigo-200 hover:bg-indigo-100"
+                    >
+                      Edit selected
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      type="button"
+                      onClick={() => setBulkAction({ type: 'delete', items: selectedItems })}
+                      className="px-3 py-1 text-sm font-medium rounded-md text-red-700 bg-white border border-red-200 hover:bg-red-50"
+                    >
+                      Delete selected
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIds(new Set())}
+                    className="ml-auto text-sm font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    Clear selection
+                  </button>
+                </div>
+              )}
+              {list.isLoading && list.items.length === 0 ? (
+                <div className="flex justify-center items-center h-64">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+                </div>
+              ) : (
+                <DataTable
+                  data={list.items}
+                  columns={columnLayout.columns}
+                  onView={(item) => openView('view', item)}
+                  onEdit={canUpdate ? (item) => openView('edit', item) : undefined}
+                  onDelete={canDelete ? (item) => openView('delete', item) : undefined}
+                  hasMore={list.hasMore}
+                  loadMore={list.loadMore}
+                  isLoadingMore={list.isLoading}
+                  loadError={list.error?.message}
+                  sort={sort}
+                  onSortChange={handleSortChange}
+                  selectedIds={selectedIds}
+                  onSelectionChange={canUpdate || canDelete ? setSelectedIds : undefined}
+                  renderExpanded={activeTab !== 'movies' ? (item) => (
+                    <SeasonList
+                      show={item as TVShow}
+                      canCreate={canCreate}
+                      canUpdate={canUpdate}
+                      canDelete={canDelete}
+                    />
+                  ) : undefined}
+                  canExpand={(item) => item.type === 'tvshow'}
+                  canAct={(item) => !isBeingCreated(item)}
+                  expandLabel="seasons"
+                  pendingIds={pendingIds}
+                  columnWidths={columnLayout.layout.widths}
+                  onColumnResize={handleColumnResize}
+                  pinnedColumn={columnLayout.layout.pinTitle ? TITLE_ACCESSOR : undefined}
+                  onCellSave={canUpdate ? handleCellSave : undefined}
+                />
+              )}
+            </div>
+          </main>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,46 @@
+export interface Bar {
+  label: string;
+  value: number;
+  // Extra context shown after the value, e.g. a secondary measure
+  note?: string;
+}
+
+interface BarChartProps {
+  title: string;
+  bars: Bar[];
+  formatValue?: (value: number) => string;
+  emptyText?: string;
+}
+
+// Horizontal bars scaled to the largest value, drawn with plain divs
+export function BarChart({ title, bars, formatValue = String, emptyText = 'No data yet.' }: BarChartProps) {
+  const max = Math.max(0, ...bars.map(bar => bar.value));
+
+  return (
+    <figure className="p-4 bg-white border border-gray-200 rounded-lg">
+      <figcaption className="mb-3 text-sm font-medium text-gray-900">{title}</figcaption>
+      {bars.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {bars.map(bar => (
+            <li key={bar.label} className="grid grid-cols-[8rem_1fr] items-center gap-3 text-xs">
+              <span className="text-gray-700 truncate" title={bar.label}>{bar.label}</span>
+              <span className="flex items-center gap-2 min-w-0">
+                <span
+                  className="h-3 rounded-sm bg-indigo-500 shrink-0"
+                  style={{ width: `${max > 0 ? (bar.value / max) * 70 : 0}%` }}
+                  aria-hidden="true"
+                />
+                <span className="text-gray-600 whitespace-nowrap">
+                  {formatValue(bar.value)}
+                  {bar.note && <span className="text-gray-400"> · {bar.note}</span>}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </figure>
+  );
+}
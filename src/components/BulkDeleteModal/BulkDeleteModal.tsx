@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { BulkResultList } from '../BulkResultList/BulkResultList';
+import { Modal, ModalTitle } from '../Modal/Modal';
+import { toApiError } from '../../lib/errors';
+import type { MediaItem, BulkItemResult } from '../../types';
+
+interface BulkDeleteModalProps {
+  items: MediaItem[];
+  onConfirm: () => Promise<BulkItemResult<MediaItem>[]>;
+  // Receives the ids that could not be deleted so they can stay selected
+  onClose: (failedIds: string[]) => void;
+}
+
+export function BulkDeleteModal({ items, onConfirm, onClose }: BulkDeleteModalProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [results, setResults] = useState<BulkItemResult<MediaItem>[] | null>(null);
+
+  const handleConfirm = async () => {
+    setIsWorking(true);
+    try {
+      setResults(await onConfirm());
+    } catch (error) {
+      const message = toApiError(error).message;
+      setResults(items.map((item) => ({ id: item.id, success: false, error: message })));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClose = () => {
+    onClose(results ? results.filter((result) => !result.success).map((result) => result.id) : []);
+  };
+
+  return (
+    <Modal onClose={handleClose} isBusy={isWorking} className="max-w-md">
+      <div className="p-6">
+        <ModalTitle className="text-lg font-medium text-gray-900 mb-2">
+          Delete {items.length} {items.length === 1 ? 'item' : 'items'}
+        </ModalTitle>
+
+        {results ? (
+          <BulkResultList items={items} results={results} />
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              The following items will be moved to the trash, where they can be restored.
+            </p>
+            <ul className="max-h-64 overflow-y-auto list-disc pl-5 text-sm text-gray-900 space-y-1">
+              {items.map((item) => (
+                <li key={item.id}>{item.title}</li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isWorking}
+            className="inline-flex items-center px-4 py-2 border border-gray-300
+              text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white
+              hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2
+              focus:ring-gray-500 transition-colors duration-200 disabled:opacity-50"
+          >
+            {results ? 'Close' : 'Cancel'}
+          </button>
+          {!results && (
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isWorking}
+              className="inline-flex items-center px-4 py-2 border border-transparent
+                text-sm font-medium rounded-md shadow-sm text-white bg-red-600
+                hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2
+                focus:ring-red-500 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isWorking ? 'Deleting...' : `Delete ${items.length}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { BulkResultList } from '../BulkResultList/BulkResultList';
+import { Modal, ModalTitle } from '../Modal/Modal';
+import { toApiError } from '../../lib/errors';
+import type { MediaItem, BulkEditChanges, BulkItemResult } from '../../types';
+
+interface BulkEditModalProps {
+  items: MediaItem[];
+  onConfirm: (changes: BulkEditChanges) => Promise<BulkItemResult<MediaItem>[]>;
+  // Receives the ids that could not be updated so they can stay selected
+  onClose: (failedIds: string[]) => void;
+}
+
+const FIELDS: { name: keyof BulkEditChanges; label: string; placeholder: string }[] = [
+  { name: 'director', label: 'Director', placeholder: 'Leave blank to keep each item\'s director' },
+  { name: 'location', label: 'Location', placeholder: 'Leave blank to keep each item\'s location' },
+];
+
+export function BulkEditModal({ items, onConfirm, onClose }: BulkEditModalProps) {
+  const [changes, setChanges] = useState<Record<keyof BulkEditChanges, string>>({ director: '', location: '' });
+  const [isWorking, setIsWorking] = useState(false);
+  const [results, setResults] = useState<BulkItemResult<MediaItem>[] | null>(null);
+
+  // Only fields the user filled in are sent, so blank means "unchanged"
+  const filledChanges: BulkEditChanges = {};
+  FIELDS.forEach(({ name }) => {
+    const value = changes[name].trim();
+    if (value) filledChanges[name] = value;
+  });
+  const hasChanges = Object.keys(filledChanges).length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasChanges) return;
+    setIsWorking(true);
+    try {
+      setResults(await onConfirm(filledChanges));
+    } catch (error) {
+      const message = toApiError(error).message;
+      setResults(items.map((item) => ({ id: item.id, success: false, error: message })));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClose = () => {
+    onClose(results ? results.filter((result) => !result.success).map((result) => result.id) : []);
+  };
+
+  return (
+    <Modal onClose={handleClose} isBusy={isWorking} className="max-w-md">
+      <form onSubmit={handleSubmit} className="p-6">
+        <ModalTitle className="text-lg font-medium text-gray-900 mb-2">
+          Edit {items.length} {items.length === 1 ? 'item' : 'items'}
+        </ModalTitle>
+
+        {results ? (
+          <BulkResultList items={items} results={results} />
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Values entered here replace the field on every selected item.
+            </p>
+            {FIELDS.map(({ name, label, placeholder }) => (
+              <div key={name}>
+                <label htmlFor={`bulk-${name}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {label}
+                </label>
+                <input
+                  id={`bulk-${name}`}
+                  type="text"
+                  value={changes[name]}
+                  placeholder={placeholder}
+                  onChange={(e) => setChanges((prev) => ({ ...prev, [name]: e.target.value }))}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-1 focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            {results ? 'Close' : 'Cancel'}
+          </button>
+          {!results && (
+            <button
+              type="submit"
+              disabled={isWorking || !hasChanges}
+              className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {isWorking ? 'Saving...' : `Update ${items.length}`}
+            </button>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,36 @@
+import type { MediaItem, BulkItemResult } from '../../types';
+
+interface BulkResultListProps {
+  items: MediaItem[];
+  results: BulkItemResult<MediaItem>[];
+}
+
+export function BulkResultList({ items, results }: BulkResultListProps) {
+  const succeeded = results.filter((result) => result.success).length;
+  const titles = new Map(items.map((item) => [item.id, item.title]));
+
+  return (
+    <div>
+      <p className="text-sm text-gray-700 mb-3">
+        {succeeded} of {results.length} succeeded
+        {succeeded < results.length && `, ${results.length - succeeded} failed`}.
+      </p>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+        {results.map((result) => (
+          <li key={result.id} className="flex items-start gap-2 px-3 py-2 text-sm">
+            <span
+              aria-label={result.success ? 'Succeeded' : 'Failed'}
+              className={result.success ? 'text-green-600' : 'text-red-600'}
+            >
+              {result.success ? '✓' : '✗'}
+            </span>
+            <span className="flex-1">
+              <span className="text-gray-900">{titles.get(result.id) ?? result.id}</span>
+              {result.error && <span className="block text-xs text-red-600">{result.error}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { TITLE_ACCESSOR } from '../../lib/columnLayout';
+import type { Column, ColumnLayout } from '../../types';
+
+interface ColumnSettingsProps {
+  // Every column the tab offers, whether shown or not
+  columns: Column[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+}
+
+const moveButton = 'w-6 h-6 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent';
+
+// A "Columns" menu for showing, hiding and reordering the table's columns.
+// Rows can be dragged, or moved with the arrow buttons from the keyboard.
+export function ColumnSettings({ columns, layout, onChange, onReset }: ColumnSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dragged, setDragged] = useState<string | null>(null);
+
+  const headerOf = (accessor: string) => columns.find(column => column.accessor === accessor)?.header ?? accessor;
+  const isLocked = (accessor: string) => layout.pinTitle && accessor === TITLE_ACCESSOR;
+  const visibleCount = layout.order.filter(accessor => !layout.hidden.includes(accessor)).length;
+
+  const toggleHidden = (accessor: string) => {
+    const hidden = layout.hidden.includes(accessor)
+      ? layout.hidden.filter(other => other !== accessor)
+      : [...layout.hidden, accessor];
+    onChange({ ...layout, hidden });
+  };
+
+  const move = (accessor: string, toIndex: number) => {
+    const order = layout.order.filter(other => other !== accessor);
+    order.splice(toIndex, 0, accessor);
+    onChange({ ...layout, order });
+  };
+
+  // A pinned title is moved to the front and shown
+  const togglePin = () => {
+    if (layout.pinTitle) {
+      onChange({ ...layout, pinTitle: false });
+      return;
+    }
+    onChange({
+      ...layout,
+      order: [TITLE_ACCESSOR, ...layout.order.filter(accessor => accessor !== TITLE_ACCESSOR)],
+      hidden: layout.hidden.filter(accessor => accessor !== TITLE_ACCESSOR),
+      pinTitle: true,
+    });
+  };
+
+  const resetWidth = (accessor: string) => {
+    const widths = { ...layout.widths };
+    delete widths[accessor];
+    onChange({ ...layout, widths });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls="column-settings"
+        className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
+      >
+        Columns
+      </button>
+      {isOpen && (
+        <div
+          id="column-settings"
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false);
+          }}
+          className="absolute z-30 mt-2 w-72 p-3 bg-white border border-gray-200 rounded-lg shadow-lg"
+        >
+          <label className="flex items-center gap-2 pb-3 mb-2 border-b border-gray-200 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={layout.pinTitle}
+              onChange={togglePin}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Pin the title column
+          </label>
+          <ul className="space-y-1" aria-label="Columns">
+            {layout.order.map((accessor, index) => {
+              const isHidden = layout.hidden.includes(accessor) && !isLocked(accessor);
+              const header = headerOf(accessor);
+              return (
+                <li
+                  key={accessor}
+                  draggable={!isLocked(accessor)}
+                  onDragStart={() => setDragged(accessor)}
+                  onDragEnd={() => setDragged(null)}
+                  onDragOver={(e) => {
+                    if (dragged && !isLocked(accessor)) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dragged && dragged !== accessor) move(dragged, index);
+                    setDragged(null);
+                  }}
+                  className={`flex items-center gap-2 px-2 py-1 rounded text-sm ${
+                    dragged === accessor ? 'bg-indigo-50' : 'hover:bg-gray-50'
+                  } ${isLocked(accessor) ? '' : 'cursor-move'}`}
+                >
+                  <input
+                    type="checkbox"
+                    aria-label={`Show ${header}`}
+                    checked={!isHidden}
+                    // The last visible column can't be hidden
+                    disabled={isLocked(accessor) || (!isHidden && visibleCount === 1)}
+                    onChange={() => toggleHidden(accessor)}
+                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+                  />
+                  <span className={`flex-1 truncate ${isHidden ? 'text-gray-400' : 'text-gray-900'}`}>
+                    {header}
+                    {isLocked(accessor) && <span className="ml-1 text-xs text-gray-500">(pinned)</span>}
+                  </span>
+                  {layout.widths[accessor] !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => resetWidth(accessor)}
+                      title="Reset width"
+                      className="text-xs text-gray-500 hover:text-gray-900 underline"
+                    >
+                      {layout.widths[accessor]}px
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    aria-label={`Move ${header} up`}
+                    disabled={isLocked(accessor) || index === 0 || isLocked(layout.order[index - 1])}
+                    onClick={() => move(accessor, index - 1)}
+                    className={moveButton}
+                  >
+                    <span aria-hidden="true">{'\u2191'}</span>
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={`Move ${header} down`}
+                    disabled={isLocked(accessor) || index === layout.order.length - 1}
+                    onClick={() => move(accessor, index + 1)}
+                    className={moveButton}
+                  >
+                    <span aria-hidden="true">{'\u2193'}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-between gap-2 pt-3 mt-2 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onReset}
+              className="text-sm font-medium text-gray-700 hover:text-gray-900 underline"
+            >
+              Reset to default
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
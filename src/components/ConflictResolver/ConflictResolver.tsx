@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { fieldConflicts, mergeValues } from '../../lib/conflicts';
+import type { MediaFormConfig } from '../../lib/mediaForms';
+import type { MediaFormData, MediaItem } from '../../types';
+
+interface ConflictResolverProps {
+  config: MediaFormConfig;
+  // The copy the user started editing from
+  base: MediaItem;
+  mine: MediaFormData;
+  // The server's current copy
+  theirs: MediaItem;
+  onSave: (data: MediaFormData) => void;
+  onDiscard: () => void;
+}
+
+const choiceButton = 'px-2 py-1 text-left text-sm rounded-md border break-all';
+
+// Shown in place of the edit form after a 409: every field where the user's
+// values differ from the saved copy, with a choice of which one to keep
+export function ConflictResolver({ config, base, mine, theirs, onSave, onDiscard }: ConflictResolverProps) {
+  const conflicts = fieldConflicts(base, mine, theirs);
+  // Start from the user's own edits; fields only the other person changed keep theirs
+  const [keepMine, setKeepMine] = useState<Set<string>>(
+    () => new Set(conflicts.filter(conflict => conflict.changedByYou).map(conflict => conflict.name))
+  );
+  const [mergeError, setMergeError] = useState<string | null>(null);
+
+  const choose = (name: string, mineWins: boolean) => {
+    const next = new Set(keepMine);
+    if (mineWins) {
+      next.add(name);
+    } else {
+      next.delete(name);
+    }
+    setKeepMine(next);
+    setMergeError(null);
+  };
+
+  // Each side is valid on its own, but a mix can break cross-field rules
+  const saveMerged = () => {
+    const merged = mergeValues(theirs, mine, keepMine);
+    const result = config.schema.safeParse(merged);
+    if (!result.success) {
+      setMergeError(result.error.issues.map(issue => issue.message).join(' '));
+      return;
+    }
+    onSave(result.data);
+  };
+
+  const renderChoice = (name: string, value: string, mineWins: boolean) => {
+    const isChosen = keepMine.has(name) === mineWins;
+    return (
+      <button
+        type="button"
+        aria-pressed={isChosen}
+        onClick={() => choose(name, mineWins)}
+        className={`${choiceButton} ${
+          isChosen ? 'border-indigo-500 bg-indigo-50 text-indigo-900' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        {value}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Edit conflict</h3>
+        <p className="text-sm text-gray-500">
+          "{theirs.title}" was changed by someone else while you were editing. Pick the value to keep for each field.
+        </p>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className="text-sm text-gray-700">Your values match the saved copy; nothing needs merging.</p>
+      ) : (
+        <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-2 items-start">
+          <span />
+          <span className="text-xs font-medium uppercase tracking-wider text-gray-500">Yours</span>
+          <span className="text-xs font-medium uppercase tracking-wider text-gray-500">Theirs</span>
+          {conflicts.map(conflict => (
+            <div key={conflict.name} className="contents">
+              <span className="py-1 text-sm font-medium text-gray-700">{conflict.label}</span>
+              {renderChoice(conflict.name, conflict.mine, true)}
+              {renderChoice(conflict.name, conflict.theirs, false)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mergeError && <p role="alert" className="text-sm text-red-600">{mergeError}</p>}
+
+      <div className="flex flex-wrap justify-end gap-3">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+        >
+          Discard mine
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(mine)}
+          className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+        >
+          Overwrite with mine
+        </button>
+        <button
+          type="button"
+          onClick={saveMerged}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700"
+        >
+          Save merged
+        </button>
+      </div>
+    </div>
+  );
+}
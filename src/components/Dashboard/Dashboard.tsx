@@ -0,0 +1,114 @@
+import { BarChart } from '../BarChart/BarChart';
+import { ScatterPlot } from '../ScatterPlot/ScatterPlot';
+import { useStats } from '../../hooks/useStats';
+import { SHOW_STATUS_LABELS } from '../../lib/format';
+import type { ShowStatus } from '../../lib/format';
+
+const SERIES_COLORS = { Movie: '#6366f1', 'TV Show': '#f59e0b' };
+
+const formatBudget = (value: number) => `$${Math.round(value).toLocaleString()}M`;
+const formatCount = (value: number) => `${value} ${value === 1 ? 'title' : 'titles'}`;
+
+// Charts over the whole collection: budgets per year, budget against running
+// time, the busiest directors, filming locations and which shows are on air
+export function Dashboard() {
+  const { stats, source, isLoading, fetchedCount, error, refresh } = useStats();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Dashboard</h2>
+          <p className="text-sm text-gray-500">
+            Show budgets are per episode. Movies count towards their release year and shows towards their first year.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isLoading}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div role="alert" className="flex items-center justify-between gap-4 px-4 py-3 bg-red-50 border-b border-red-200">
+          <p className="text-sm text-red-700">{error.message}</p>
+          <button type="button" onClick={refresh} className="text-sm font-medium text-red-700 hover:text-red-900 underline">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {!stats && !error && (
+        <p className="px-4 py-8 text-center text-sm text-gray-500">
+          {fetchedCount !== undefined ? `Loading titles... ${fetchedCount} so far` : 'Loading dashboard...'}
+        </p>
+      )}
+
+      {stats && (
+        <div className="grid gap-4 p-4 bg-gray-50 lg:grid-cols-2">
+          <BarChart
+            title="Total budget per year"
+            bars={stats.budgetByYear.map(row => ({
+              label: String(row.year),
+              value: row.totalBudget,
+              note: formatCount(row.count),
+            }))}
+            formatValue={formatBudget}
+          />
+          <BarChart
+            title="Average budget per year"
+            bars={stats.budgetByYear.map(row => ({ label: String(row.year), value: row.averageBudget }))}
+            formatValue={formatBudget}
+          />
+          <ScatterPlot
+            title="Budget vs. duration"
+            points={stats.budgetVsDuration.map(point => ({
+              id: point.id,
+              x: point.duration,
+              y: point.budget,
+              label: point.title,
+              series: point.type === 'movie' ? 'Movie' : 'TV Show',
+            }))}
+            xLabel="Duration (min)"
+            yLabel="Budget ($M)"
+            colors={SERIES_COLORS}
+            formatX={value => `${value} min`}
+            formatY={formatBudget}
+          />
+          <BarChart
+            title="Top directors"
+            bars={stats.topDirectors.map(row => ({
+              label: row.director,
+              value: row.count,
+              note: `${formatBudget(row.totalBudget)} spent`,
+            }))}
+            formatValue={formatCount}
+          />
+          <BarChart
+            title="Titles per location"
+            bars={stats.locations.map(row => ({ label: row.location, value: row.count }))}
+            formatValue={formatCount}
+          />
+          <BarChart
+            title="TV shows by status"
+            bars={(['running', 'ended', 'upcoming'] as ShowStatus[]).map(status => ({
+              label: SHOW_STATUS_LABELS[status],
+              value: stats.showStatus[status],
+            }))}
+            formatValue={value => `${value} ${value === 1 ? 'show' : 'shows'}`}
+          />
+        </div>
+      )}
+
+      {stats && source === 'client' && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-200">
+          Computed in the browser from every title, as the server doesn't provide statistics.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,147 +1,853 @@
-import { useCallback } from 'react';
-import InfiniteScroll from 'react-infinite-scroll-component';
-import type { MediaItem, ColumnValue } from '../../types';
-
-interface Column {
-  header: string;
-  accessor: keyof MediaItem;
-  render?: (value: ColumnValue, item: MediaItem) => string;
-}
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PosterThumbnail } from '../PosterThumbnail/PosterThumbnail';
+import { useMediaQuery } from '../../hooks/useMediaQuery';
+import { useVirtualizer } from '../../hooks/useVirtualizer';
+import type { VirtualItem } from '../../hooks/useVirtualizer';
+import { cellText, editableField, parseCellValue, validateCell } from '../../lib/cellEditing';
+import { clampWidth, MAX_COLUMN_WIDTH, MIN_COLUMN_WIDTH } from '../../lib/columnLayout';
+import { formatCell } from '../../lib/columns';
+import { toApiError } from '../../lib/errors';
+import { hasModifier, isTypingTarget } from '../../lib/shortcuts';
+import type { FormFieldDescriptor } from '../../lib/mediaForms';
+import type { MediaItem, Column, SortState } from '../../types';
 
 interface DataTableProps {
   data: MediaItem[];
   columns: Column[];
-  onEdit: (item: MediaItem) => void;
-  onDelete: (item: MediaItem) => void;
+  // Row actions are only rendered for the handlers that are provided
+  onView?: (item: MediaItem) => void;
+  onEdit?: (item: MediaItem) => void;
+  onDelete?: (item: MediaItem) => void;
   hasMore: boolean;
   loadMore: () => void;
+  // A page fetch is in flight
+  isLoadingMore?: boolean;
+  // Why the last page fetch failed; the footer offers to try again
+  loadError?: string;
+  sort?: SortState | null;
+  onSortChange?: (sort: SortState | null) => void;
+  // Row checkboxes are shown when a selection handler is provided
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+  // Rows get an expand toggle revealing this content when it is provided
+  renderExpanded?: (item: MediaItem) => React.ReactNode;
+  // Limits the toggle to some rows (e.g. TV shows in a mixed list)
+  canExpand?: (item: MediaItem) => boolean;
+  expandLabel?: string;
+  // Rows it rejects (e.g. items still being created) can't be opened, edited,
+  // deleted, selected or expanded
+  canAct?: (item: MediaItem) => boolean;
+  // Rows with changes waiting to be synced get a "Pending" badge
+  pendingIds?: Set<string>;
+  // Fixed widths by accessor; headers get resize handles when `onColumnResize`
+  // is provided, which receives `undefined` when a width is reset
+  columnWidths?: Record<string, number>;
+  onColumnResize?: (accessor: string, width?: number) => void;
+  // Accessor of a column that stays at the left edge when scrolling sideways
+  pinnedColumn?: string;
+  // Cells of form fields can be edited in place (double-click or Enter) when
+  // provided. `value` has passed the form's rules; a rejection is shown on the cell.
+  onCellSave?: (item: MediaItem, field: string, value: unknown) => Promise<unknown>;
+}
+
+interface CellEdit {
+  itemId: string;
+  field: string;
+  text: string;
+  error?: string;
+}
+
+// Starting heights for unmeasured rows: a table row with its poster, and a card
+const ROW_HEIGHT = 73;
+const CARD_HEIGHT = 260;
+// Rows left below the viewport when the next page is requested
+const LOAD_AHEAD = 20;
+
+// Header cells stay at the top of the table while the rows scroll under them
+const headerCell = 'sticky top-0 z-10 bg-gray-50 border-b border-gray-200';
+// Pixels a focused resize handle moves per arrow key press
+const RESIZE_STEP = 16;
+// How long a click on an editable cell waits to see if it's a double-click
+const DOUBLE_CLICK_DELAY = 250;
+
+const cellKey = (item: MediaItem, field: string) => `${item.id}:${field}`;
+
+// Clicking a sortable header cycles: none -> ascending -> descending -> none
+function nextSort(current: SortState | null | undefined, field: string): SortState | null {
+  if (!current || current.field !== field) {
+    return { field, order: 'asc' };
+  }
+  return current.order === 'asc' ? { field, order: 'desc' } : null;
 }
 
 export function DataTable({
   data,
   columns,
+  onView,
   onEdit,
   onDelete,
   hasMore,
   loadMore,
+  isLoadingMore = false,
+  loadError,
+  sort,
+  onSortChange,
+  selectedIds,
+  onSelectionChange,
+  renderExpanded,
+  canExpand,
+  canAct,
+  expandLabel = 'details',
+  pendingIds,
+  columnWidths,
+  onColumnResize,
+  pinnedColumn,
+  onCellSave,
 }: DataTableProps) {
-  const formatValue = useCallback((column: Column, item: MediaItem) => {
-    const value = item[column.accessor];
-    if (column.render) {
-      return column.render(value as ColumnValue, item);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  // The row holding keyboard focus stays rendered when scrolled out of view,
+  // so focus isn't lost
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Set when the arrow keys move to a row, which is focused once pinning has
+  // rendered it
+  const focusTarget = useRef<string | null>(null);
+  const root = useRef<HTMLDivElement>(null);
+  // Matches Tailwind's `sm` breakpoint; only one layout is rendered
+  const isDesktop = useMediaQuery('(min-width: 640px)');
+  // The desktop table scrolls in its own box, so it can scroll sideways while
+  // keeping its header in view; cards scroll with the page
+  const [scroller, setScroller] = useState<HTMLDivElement | null>(null);
+  // Width of the column being dragged, applied before it's saved on release
+  const [resizing, setResizing] = useState<{ accessor: string; width: number } | null>(null);
+  const [editing, setEditing] = useState<CellEdit | null>(null);
+  // Saves in flight and failed saves, by cell; kept here as rows scrolled out
+  // of view are unmounted
+  const [cellStatus, setCellStatus] = useState<Record<string, { saving: boolean; error?: string }>>({});
+  const viewTimer = useRef<number | undefined>(undefined);
+  // Set when Enter or Escape already finished the edit the next blur would
+  const skipBlur = useRef(false);
+
+  useEffect(() => () => window.clearTimeout(viewTimer.current), []);
+
+  useEffect(() => {
+    const id = focusTarget.current;
+    if (!id) return;
+    focusTarget.current = null;
+    root.current?.querySelector<HTMLElement>(`[data-row-id="${CSS.escape(id)}"]`)?.focus();
+  }, [focusedId]);
+
+  // Keys carry the layout, as rows and cards have different heights
+  const getKey = useCallback(
+    (index: number) => `${isDesktop ? 'row' : 'card'}:${data[index].id}`,
+    [data, isDesktop]
+  );
+  const { setContainer, measureElement, virtualItems, totalSize } = useVirtualizer({
+    count: data.length,
+    getKey,
+    estimateSize: isDesktop ? ROW_HEIGHT : CARD_HEIGHT,
+    pinnedIndex: focusedId ? data.findIndex((item) => item.id === focusedId) : undefined,
+    scrollElement: isDesktop ? scroller : undefined,
+    // Rows are measured from the bottom of the table header
+    startsBelow: isDesktop,
+  });
+
+  // Asks for the next page once the rendered rows get near the end, at most
+  // once per loaded length of each list like an infinite scroll
+  const lastRendered = virtualItems.length > 0 ? virtualItems[virtualItems.length - 1].index : -1;
+  const requested = useRef<{ loadMore: () => void; length: number } | null>(null);
+  useEffect(() => {
+    if (!hasMore || data.length === 0 || lastRendered < data.length - LOAD_AHEAD) return;
+    if (requested.current?.loadMore === loadMore && requested.current.length === data.length) return;
+    requested.current = { loadMore, length: data.length };
+    loadMore();
+  }, [hasMore, data.length, lastRendered, loadMore]);
+
+  // Only one row is in the Tab order: the last one focused, or the first
+  const activeId = focusedId && data.some((item) => item.id === focusedId) ? focusedId : data[0]?.id;
+
+  const isActionable = (item: MediaItem) => canAct?.(item) ?? true;
+  const hasActions = Boolean(onView || onEdit || onDelete);
+  const isSelectable = Boolean(onSelectionChange);
+  const selectableItems = data.filter(isActionable);
+  const selectedCount = selectedIds ? data.filter((item) => selectedIds.has(item.id)).length : 0;
+  const allSelected = selectableItems.length > 0 && selectedCount === selectableItems.length;
+
+  const toggleRow = (item: MediaItem) => {
+    const next = new Set(selectedIds);
+    if (next.has(item.id)) {
+      next.delete(item.id);
+    } else {
+      next.add(item.id);
     }
-    return String(value ?? '');
-  }, []);
-
-  const renderMobileCard = (item: MediaItem) => (
-    <div className="bg-white p-4 border-b border-gray-200 last:border-b-0">
-      {columns.map((column) => (
-        <div key={column.accessor} className="mb-2 last:mb-0">
-          <span className="text-sm font-medium text-gray-500">{column.header}: </span>
-          <span className="text-sm text-gray-900">{formatValue(column, item)}</span>
-        </div>
-      ))}
-      <div className="flex justify-end space-x-2 mt-4">
-        <button
-          onClick={() => onEdit(item)}
-          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          Edit
-        </button>
+    onSelectionChange?.(next);
+  };
+
+  // "Select all" only covers the rows loaded so far
+  const toggleAll = () => {
+    onSelectionChange?.(allSelected ? new Set() : new Set(selectableItems.map((item) => item.id)));
+  };
+
+  const renderSelectAll = () => (
+    <input
+      type="checkbox"
+      aria-label="Select all loaded items"
+      checked={allSelected}
+      ref={(element) => {
+        if (element) element.indeterminate = selectedCount > 0 && !allSelected;
+      }}
+      onChange={toggleAll}
+      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+    />
+  );
+
+  const renderRowCheckbox = (item: MediaItem) => (
+    <input
+      type="checkbox"
+      aria-label={`Select ${item.title}`}
+      checked={selectedIds?.has(item.id) ?? false}
+      disabled={!isActionable(item)}
+      onChange={() => toggleRow(item)}
+      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+    />
+  );
+
+  const isExpandable = Boolean(renderExpanded);
+  const isRowExpandable = (item: MediaItem) => isExpandable && isActionable(item) && (canExpand?.(item) ?? true);
+  const isExpanded = (item: MediaItem) => isRowExpandable(item) && expandedIds.has(item.id);
+
+  const toggleExpanded = (item: MediaItem) => {
+    const next = new Set(expandedIds);
+    if (next.has(item.id)) {
+      next.delete(item.id);
+    } else {
+      next.add(item.id);
+    }
+    setExpandedIds(next);
+  };
+
+  const renderExpandToggle = (item: MediaItem) => {
+    const isOpen = expandedIds.has(item.id);
+    return (
+      <button
+        type="button"
+        onClick={() => toggleExpanded(item)}
+        aria-expanded={isOpen}
+        aria-label={`${isOpen ? 'Hide' : 'Show'} ${expandLabel} of ${item.title}`}
+        className="inline-flex items-center justify-center w-6 h-6 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100"
+      >
+        <span aria-hidden="true">{isOpen ? '\u25BE' : '\u25B8'}</span>
+      </button>
+    );
+  };
+
+  const renderCell = (column: Column, item: MediaItem) => {
+    const text = formatCell(column, item);
+    if (!column.badge) return text;
+    return (
+      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+        {text}
+      </span>
+    );
+  };
+
+  // Shown after the first column's value
+  const renderPendingBadge = (item: MediaItem) => pendingIds?.has(item.id) && (
+    <span
+      title="Saved offline; waiting to sync"
+      className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+    >
+      Pending
+    </span>
+  );
+
+  // Clicking anywhere on a row opens it, except on its own controls. On an
+  // editable cell it waits, as the click may start a double-click to edit.
+  const handleRowClick = (e: React.MouseEvent, item: MediaItem) => {
+    if (!onView || !isActionable(item) || (e.target as HTMLElement).closest('button, input, a, label')) return;
+    window.clearTimeout(viewTimer.current);
+    if (!(e.target as HTMLElement).closest('[data-editable]')) {
+      onView(item);
+    } else if (e.detail <= 1) {
+      viewTimer.current = window.setTimeout(() => onView(item), DOUBLE_CLICK_DELAY);
+    }
+  };
+
+  // Up and down move between rows from anywhere in a row; left and right move
+  // between the row and its editable cells. The row shortcuts only act while
+  // the row itself has focus, so keys pressed on its buttons, links and cells
+  // keep their usual meaning.
+  const handleRowKey = (e: React.KeyboardEvent<HTMLElement>, item: MediaItem, index: number) => {
+    if (e.defaultPrevented || hasModifier(e) || isTypingTarget(e.target)) return;
+    const canActHere = e.target === e.currentTarget && isActionable(item);
+    let next: number | undefined;
+    switch (e.key) {
+      case 'ArrowDown':
+        next = Math.min(index + 1, data.length - 1);
+        break;
+      case 'ArrowUp':
+        next = Math.max(index - 1, 0);
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = data.length - 1;
+        break;
+      case 'ArrowRight':
+      case 'ArrowLeft': {
+        const cells = [...e.currentTarget.querySelectorAll<HTMLElement>('[data-editable]')];
+        if (cells.length === 0) return;
+        // -1 while the row itself has focus
+        const at = cells.indexOf(e.target as HTMLElement);
+        const to = e.key === 'ArrowRight' ? Math.min(at + 1, cells.length - 1) : at - 1;
+        if (to < 0) {
+          e.currentTarget.focus();
+        } else {
+          cells[to].focus();
+        }
+        break;
+      }
+      case 'Enter':
+        if (!canActHere || !onView) return;
+        onView(item);
+        break;
+      case ' ':
+        if (!canActHere || !isSelectable) return;
+        toggleRow(item);
+        break;
+      case 'e':
+        if (!canActHere || !onEdit) return;
+        onEdit(item);
+        break;
+      case 'Delete':
+        if (!canActHere || !onDelete) return;
+        onDelete(item);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (next === undefined) return;
+    if (next === index) {
+      e.currentTarget.focus();
+    } else {
+      focusTarget.current = data[next].id;
+      setFocusedId(data[next].id);
+    }
+  };
+
+  // Focus outline for rows and cards; scroll-mt on rows keeps them clear of the sticky header
+  const rowFocus = 'focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-indigo-500';
+
+  const setStatus = (key: string, status?: { saving: boolean; error?: string }) => {
+    setCellStatus((prev) => {
+      const next = { ...prev };
+      if (status) {
+        next[key] = status;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const startEditing = (item: MediaItem, field: FormFieldDescriptor) => {
+    window.clearTimeout(viewTimer.current);
+    skipBlur.current = false;
+    setStatus(cellKey(item, field.name));
+    setEditing({ itemId: item.id, field: field.name, text: cellText(item, field) });
+  };
+
+  // Validates and saves the edited cell. Returns false, keeping the editor
+  // open with the error, when the value breaks the form's rules.
+  const commitEdit = (item: MediaItem, field: FormFieldDescriptor, edit: CellEdit) => {
+    const value = parseCellValue(field, edit.text);
+    const error = validateCell(item, field, value);
+    if (error) {
+      setEditing({ ...edit, error });
+      return false;
+    }
+    setEditing(null);
+    if (String(value ?? '') === cellText(item, field) || !onCellSave) return true;
+
+    const key = cellKey(item, field.name);
+    setStatus(key, { saving: true });
+    onCellSave(item, field.name, value)
+      .then(() => setStatus(key))
+      .catch((saveError) => setStatus(key, { saving: false, error: toApiError(saveError).message }));
+    return true;
+  };
+
+  const handleEditorKey = (e: React.KeyboardEvent<HTMLInputElement>, item: MediaItem, field: FormFieldDescriptor, edit: CellEdit) => {
+    if (e.key !== 'Enter' && e.key !== 'Escape') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const cell = e.currentTarget.closest('td');
+    skipBlur.current = true;
+    if (e.key === 'Escape') {
+      setEditing(null);
+    } else if (!commitEdit(item, field, edit)) {
+      skipBlur.current = false;
+      return;
+    }
+    // Focus goes back to the cell, ready for the next Enter
+    cell?.focus();
+  };
+
+  const handleEditorBlur = (item: MediaItem, field: FormFieldDescriptor, edit: CellEdit) => {
+    if (skipBlur.current) {
+      skipBlur.current = false;
+      return;
+    }
+    commitEdit(item, field, edit);
+  };
+
+  const renderCellEditor = (item: MediaItem, field: FormFieldDescriptor, edit: CellEdit) => {
+    const errorId = `cell-error-${cellKey(item, field.name)}`;
+    return (
+      <div>
+        <input
+          // Image fields aren't edited inline, so the rest map onto input types
+          type={field.input}
+          autoFocus
+          value={edit.text}
+          aria-label={`${field.label} of ${item.title}`}
+          aria-invalid={Boolean(edit.error)}
+          aria-describedby={edit.error ? errorId : undefined}
+          onChange={(e) => setEditing({ ...edit, text: e.target.value, error: undefined })}
+          onKeyDown={(e) => handleEditorKey(e, item, field, edit)}
+          onBlur={() => handleEditorBlur(item, field, edit)}
+          className={`w-full min-w-[6rem] px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 ${
+            edit.error ? 'border-red-400 focus:ring-red-500' : 'border-gray-300 focus:ring-indigo-500'
+          }`}
+        />
+        {edit.error && (
+          <p id={errorId} className="mt-1 text-xs text-red-600 whitespace-normal">
+            {edit.error}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderDataCell = (column: Column, columnIndex: number, item: MediaItem) => {
+    const field = onCellSave && isActionable(item) ? editableField(item, column.accessor) : undefined;
+    const edit = field && editing?.itemId === item.id && editing.field === field.name ? editing : null;
+    const status = field ? cellStatus[cellKey(item, field.name)] : undefined;
+    return (
+      <td
+        key={`${item.id}-${column.accessor}`}
+        style={widthStyle(column.accessor)}
+        className={`${pinnedCell(column)} bg-inherit px-6 py-4 whitespace-nowrap overflow-hidden text-ellipsis text-sm text-gray-900 ${
+          status?.error ? 'ring-2 ring-inset ring-red-300' : ''
+        } ${field ? 'focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500' : ''}`}
+        data-editable={field ? true : undefined}
+        // Reached from the row with the arrow keys, keeping one Tab stop per table
+        tabIndex={field && !edit ? -1 : undefined}
+        title={edit ? undefined : status?.error}
+        onDoubleClick={field && !edit ? () => startEditing(item, field) : undefined}
+        onKeyDown={field && !edit ? (e) => {
+          if (e.key !== 'Enter' || e.target !== e.currentTarget) return;
+          e.preventDefault();
+          startEditing(item, field);
+        } : undefined}
+      >
+        {field && edit ? (
+          renderCellEditor(item, field, edit)
+        ) : (
+          <>
+            {renderCell(column, item)}
+            {columnIndex === 0 && renderPendingBadge(item)}
+            {status?.saving && (
+              <span role="status" className="ml-2 text-xs text-gray-500">
+                Saving...
+              </span>
+            )}
+            {status?.error && (
+              <span role="alert" className="ml-2 text-xs font-medium text-red-600">
+                Not saved<span className="sr-only">: {status.error}</span>
+              </span>
+            )}
+          </>
+        )}
+      </td>
+    );
+  };
+
+  const sortableColumns = onSortChange ? columns.filter((column) => column.sortable) : [];
+
+  const sortIndicator = (column: Column) => {
+    if (sort?.field !== column.accessor) return '\u2195';
+    return sort.order === 'asc' ? '\u2191' : '\u2193';
+  };
+
+  const renderMobileSortBar = () => (
+    <div className="sticky top-0 z-10 flex flex-wrap gap-2 p-4 bg-white border-b border-gray-200">
+      <span className="text-sm font-medium text-gray-500 self-center">Sort by:</span>
+      {sortableColumns.map((column) => (
         <button
-          onClick={() => onDelete(item)}
-          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+          key={column.accessor}
+          type="button"
+          onClick={() => onSortChange?.(nextSort(sort, column.accessor))}
+          className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors duration-200 ${
+            sort?.field === column.accessor
+              ? 'bg-indigo-600 text-white border-indigo-600'
+              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+          }`}
         >
-          Delete
+          {column.header} {sortIndicator(column)}
         </button>
-      </div>
+      ))}
     </div>
   );
 
-  const renderDesktopTable = () => (
-    <table className="min-w-full divide-y divide-gray-200">
-      <thead className="bg-gray-50">
-        <tr>
-          {columns.map((column) => (
-            <th
-              key={column.accessor}
-              scope="col"
-              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
-            >
-              {column.header}
-            </th>
+  const renderMobileCard = (item: MediaItem, virtualItem: VirtualItem) => (
+    <div
+      key={virtualItem.key}
+      ref={measureElement}
+      data-key={virtualItem.key}
+      data-row-id={item.id}
+      role="group"
+      aria-label={item.title}
+      tabIndex={item.id === activeId ? 0 : -1}
+      onFocus={() => setFocusedId(item.id)}
+      onKeyDown={(e) => handleRowKey(e, item, virtualItem.index)}
+      className={`bg-white p-4 border-b border-gray-200 last:border-b-0 ${rowFocus}`}
+    >
+      {isSelectable && <div className="mb-2">{renderRowCheckbox(item)}</div>}
+      <div
+        className={`flex gap-4 ${onView ? 'cursor-pointer' : ''}`}
+        onClick={(e) => handleRowClick(e, item)}
+      >
+        <PosterThumbnail src={item.poster} title={item.title} className="w-16 h-24" />
+        <div className="flex-1 min-w-0">
+          {columns.map((column, columnIndex) => (
+            <div key={column.accessor} className="mb-2 last:mb-0">
+              <span className="text-sm font-medium text-gray-500">{column.header}: </span>
+              <span className="text-sm text-gray-900">{renderCell(column, item)}</span>
+              {columnIndex === 0 && renderPendingBadge(item)}
+            </div>
           ))}
-          <th scope="col" className="relative px-6 py-3">
-            <span className="sr-only">Actions</span>
-          </th>
-        </tr>
-      </thead>
-      <tbody className="bg-white divide-y divide-gray-200">
-        {data.map((item, index) => (
-          <tr
-            key={item.id}
-            className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}
-            style={{ transition: 'all 0.2s' }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#f9fafb';
-            }}
-  
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = index % 2 === 0 ? '#ffffff' : '#f9fafb';
-            }}
-          >
-            {columns.map((column) => (
-              <td
-                key={`${item.id}-${column.accessor}`}
-                className="px-6 py-4 whitespace-nowrap text-sm text-gray-900"
+        </div>
+      </div>
+      {isRowExpandable(item) && (
+        <div className="flex items-center gap-1 mt-2 text-sm text-gray-700">
+          {renderExpandToggle(item)}
+          {expandLabel.charAt(0).toUpperCase() + expandLabel.slice(1)}
+        </div>
+      )}
+      {isExpanded(item) && (
+        <div className="mt-3">{renderExpanded?.(item)}</div>
+      )}
+      {hasActions && (
+        <div className="flex justify-end space-x-2 mt-4">
+          {onView && (
+            <button
+              onClick={() => onView(item)}
+              disabled={!isActionable(item)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              View
+            </button>
+          )}
+          {onEdit && (
+            <button
+              onClick={() => onEdit(item)}
+              disabled={!isActionable(item)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => onDelete(item)}
+              disabled={!isActionable(item)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  // Cards that aren't rendered are replaced by padding of the same height
+  const renderMobileCards = () => {
+    const cards: React.ReactNode[] = [];
+    let offset = 0;
+    virtualItems.forEach((virtualItem) => {
+      if (virtualItem.start > offset) {
+        cards.push(<div key={`gap-${virtualItem.index}`} aria-hidden="true" style={{ height: virtualItem.start - offset }} />);
+      }
+      cards.push(renderMobileCard(data[virtualItem.index], virtualItem));
+      offset = virtualItem.start + virtualItem.size;
+    });
+    return (
+      <div ref={setContainer} style={{ paddingBottom: Math.max(0, totalSize - offset) }}>
+        {cards}
+      </div>
+    );
+  };
+
+  const widthOf = (accessor: string) =>
+    resizing?.accessor === accessor ? resizing.width : columnWidths?.[accessor];
+
+  const widthStyle = (accessor: string): React.CSSProperties | undefined => {
+    const width = widthOf(accessor);
+    return width === undefined ? undefined : { width, minWidth: width, maxWidth: width };
+  };
+
+  const pinnedCell = (column: Column) =>
+    column.accessor === pinnedColumn ? 'sticky left-0 shadow-[inset_-1px_0_0_#e5e7eb]' : '';
+
+  // Dragging a header's right edge resizes the column; the width is saved on release
+  const startResize = (e: React.PointerEvent<HTMLElement>, accessor: string) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = (e.currentTarget.closest('th') as HTMLElement).getBoundingClientRect().width;
+    let width = clampWidth(startWidth);
+    const handleMove = (move: PointerEvent) => {
+      width = clampWidth(startWidth + move.clientX - startX);
+      setResizing({ accessor, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setResizing(null);
+      onColumnResize?.(accessor, width);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const handleResizeKey = (e: React.KeyboardEvent<HTMLElement>, accessor: string) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const current = widthOf(accessor) ?? (e.currentTarget.closest('th') as HTMLElement).getBoundingClientRect().width;
+    onColumnResize?.(accessor, clampWidth(current + (e.key === 'ArrowRight' ? RESIZE_STEP : -RESIZE_STEP)));
+  };
+
+  const renderResizeHandle = (column: Column) => {
+    const width = widthOf(column.accessor);
+    return (
+      <span
+        role="separator"
+        aria-orientation="vertical"
+        aria-label={`Resize ${column.header}`}
+        aria-valuenow={width}
+        aria-valuemin={MIN_COLUMN_WIDTH}
+        aria-valuemax={MAX_COLUMN_WIDTH}
+        title="Drag to resize, double-click to reset"
+        tabIndex={0}
+        onPointerDown={(e) => startResize(e, column.accessor)}
+        onKeyDown={(e) => handleResizeKey(e, column.accessor)}
+        onDoubleClick={() => onColumnResize?.(column.accessor, undefined)}
+        className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize hover:bg-indigo-300 focus:bg-indigo-400 focus:outline-none"
+      />
+    );
+  };
+
+  // Data columns plus the expand toggle, poster, checkbox and actions columns
+  const columnCount = columns.length + 1 + (isExpandable ? 1 : 0) + (isSelectable ? 1 : 0) + (hasActions ? 1 : 0);
+
+  // Stands in for the rows that aren't rendered
+  const renderSpacerRow = (height: number, key: string) => (
+    <tbody key={key} aria-hidden="true">
+      <tr>
+        <td colSpan={columnCount} className="p-0" style={{ height }} />
+      </tr>
+    </tbody>
+  );
+
+  // Each item gets its own <tbody>, so a row and its expanded content are
+  // measured together
+  const renderDesktopRows = () => {
+    const sections: React.ReactNode[] = [];
+    let offset = 0;
+    virtualItems.forEach((virtualItem) => {
+      if (virtualItem.start > offset) {
+        sections.push(renderSpacerRow(virtualItem.start - offset, `gap-${virtualItem.index}`));
+      }
+      sections.push(renderDesktopRow(data[virtualItem.index], virtualItem));
+      offset = virtualItem.start + virtualItem.size;
+    });
+    if (totalSize > offset) sections.push(renderSpacerRow(totalSize - offset, 'end'));
+    return sections;
+  };
+
+  const renderDesktopRow = (item: MediaItem, { index, key }: VirtualItem) => (
+    <tbody
+      key={key}
+      ref={measureElement}
+      data-key={key}
+      onFocus={() => setFocusedId(item.id)}
+      className="border-t border-gray-200"
+    >
+      <tr
+        data-row-id={item.id}
+        aria-rowindex={index + 2}
+        tabIndex={item.id === activeId ? 0 : -1}
+        className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-gray-100 transition-colors duration-200 scroll-mt-12 ${rowFocus} ${onView ? 'cursor-pointer' : ''}`}
+        onClick={(e) => handleRowClick(e, item)}
+        onKeyDown={(e) => handleRowKey(e, item, index)}
+      >
+        {isSelectable && (
+          <td className="pl-6 py-4 w-4">{renderRowCheckbox(item)}</td>
+        )}
+        {isExpandable && (
+          <td className="pl-6 py-4 w-6">{isRowExpandable(item) && renderExpandToggle(item)}</td>
+        )}
+        <td className="pl-6 py-2 w-10">
+          <PosterThumbnail src={item.poster} title={item.title} />
+        </td>
+        {columns.map((column, columnIndex) => renderDataCell(column, columnIndex, item))}
+        {hasActions && (
+          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+            {onView && (
+              <button
+                onClick={() => onView(item)}
+                disabled={!isActionable(item)}
+                className="text-gray-600 hover:text-gray-900 bg-gray-100 px-3 py-1 rounded-md transition-colors duration-200 disabled:opacity-50"
               >
-                {formatValue(column, item)}
-              </td>
-            ))}
-            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                View
+              </button>
+            )}
+            {onEdit && (
               <button
                 onClick={() => onEdit(item)}
-                className="text-indigo-600 hover:text-indigo-900 bg-indigo-50 px-3 py-1 rounded-md transition-colors duration-200"
+                disabled={!isActionable(item)}
+                className="text-indigo-600 hover:text-indigo-900 bg-indigo-50 px-3 py-1 rounded-md transition-colors duration-200 disabled:opacity-50"
               >
                 Edit
               </button>
+            )}
+            {onDelete && (
               <button
                 onClick={() => onDelete(item)}
-                className="text-red-600 hover:text-red-900 bg-red-50 px-3 py-1 rounded-md transition-colors duration-200"
+                disabled={!isActionable(item)}
+                className="text-red-600 hover:text-red-900 bg-red-50 px-3 py-1 rounded-md transition-colors duration-200 disabled:opacity-50"
               >
                 Delete
               </button>
-            </td>
-          </tr>
-        ))}
-      </tbody>
+            )}
+          </td>
+        )}
+      </tr>
+      {isExpanded(item) && (
+        <tr className="bg-gray-50">
+          <td colSpan={columnCount} className="px-6 py-4">
+            {renderExpanded?.(item)}
+          </td>
+        </tr>
+      )}
+    </tbody>
+  );
+
+  // Pages usually load as rows scroll into view; the buttons are for when
+  // that stalled (a failed fetch) or can't happen (keyboard users, short lists)
+  const renderFooter = () => {
+    if (isLoadingMore) return 'Loading more items...';
+    if (hasMore) {
+      return (
+        <>
+          {loadError && <span className="text-red-600">Could not load more items. </span>}
+          <button
+            type="button"
+            onClick={loadMore}
+            className="font-medium text-indigo-600 hover:text-indigo-800 underline"
+          >
+            {loadError ? 'Try again' : 'Load more'}
+          </button>
+        </>
+      );
+    }
+    return data.length === 0 ? 'No items found' : 'No more items to load';
+  };
+
+  const renderDesktopTable = () => (
+    // Only some rows are rendered, so their positions are given explicitly
+    <table className="min-w-full" aria-rowcount={data.length + 1}>
+      <thead ref={setContainer}>
+        <tr aria-rowindex={1}>
+          {isSelectable && (
+            <th scope="col" className={`${headerCell} pl-6 py-3 w-4`}>
+              {renderSelectAll()}
+            </th>
+          )}
+          {isExpandable && (
+            <th scope="col" className={`${headerCell} pl-6 py-3 w-6`}>
+              <span className="sr-only">Expand</span>
+            </th>
+          )}
+          <th scope="col" className={`${headerCell} pl-6 py-3 w-10`}>
+            <span className="sr-only">Poster</span>
+          </th>
+          {columns.map((column) => {
+            const isSortable = Boolean(onSortChange && column.sortable);
+            const isSorted = sort?.field === column.accessor;
+            return (
+              <th
+                key={column.accessor}
+                scope="col"
+                aria-sort={isSorted ? (sort?.order === 'asc' ? 'ascending' : 'descending') : undefined}
+                style={widthStyle(column.accessor)}
+                className={`${headerCell} ${pinnedCell(column)} ${
+                  column.accessor === pinnedColumn ? 'z-20' : ''
+                } px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap overflow-hidden text-ellipsis`}
+              >
+                {isSortable ? (
+                  <button
+                    type="button"
+                    onClick={() => onSortChange?.(nextSort(sort, column.accessor))}
+                    className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 ${
+                      isSorted ? 'text-indigo-600' : ''
+                    }`}
+                  >
+                    {column.header}
+                    <span aria-hidden="true">{sortIndicator(column)}</span>
+                  </button>
+                ) : (
+                  column.header
+                )}
+                {onColumnResize && renderResizeHandle(column)}
+              </th>
+            );
+          })}
+          {hasActions && (
+            <th scope="col" className={`${headerCell} px-6 py-3`}>
+              <span className="sr-only">Actions</span>
+            </th>
+          )}
+        </tr>
+      </thead>
+      {renderDesktopRows()}
     </table>
   );
 
   return (
-    <div className="bg-white shadow overflow-hidden">
-      <InfiniteScroll
-        dataLength={data.length}
-        next={loadMore}
-        hasMore={hasMore}
-        loader={
-          <div className="text-center py-4 text-gray-500">
-            Loading more items...
-          </div>
-        }
-        endMessage={
-          <div className="text-center py-4 text-gray-500">
-            {data.length === 0 ? "No items found" : "No more items to load"}
-          </div>
-        }
-      >
-        <div className="hidden sm:block">
+    // overflow-clip rather than overflow-hidden, which would stop the mobile sort bar sticking
+    <div ref={root} className="bg-white shadow overflow-clip">
+      {isDesktop ? (
+        <div ref={setScroller} className="max-h-[80vh] overflow-auto">
           {renderDesktopTable()}
         </div>
-        <div className="sm:hidden">
-          {data.map((item) => renderMobileCard(item))}
+      ) : (
+        <div>
+          {sortableColumns.length > 0 && renderMobileSortBar()}
+          {isSelectable && data.length > 0 && (
+            <label className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 text-sm text-gray-700">
+              {renderSelectAll()}
+              Select all loaded
+            </label>
+          )}
+          {renderMobileCards()}
         </div>
-      </InfiniteScroll>
+      )}
+      <div role="status" className="text-center py-4 text-gray-500">
+        {renderFooter()}
+      </div>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Modal, ModalTitle } from '../Modal/Modal';
+import { buildExport, fetchAllItems } from '../../lib/exporter';
+import type { ExportFormat } from '../../lib/exporter';
+import { downloadFile } from '../../lib/download';
+import { toApiError } from '../../lib/errors';
+import type { ListQuery } from '../../lib/api';
+import type { Column, ListTab, MediaItem } from '../../types';
+
+interface ExportModalProps {
+  tab: ListTab;
+  columns: Column[];
+  // Rows currently loaded in the table, and whether the server has more
+  loadedItems: MediaItem[];
+  hasMore: boolean;
+  query: ListQuery;
+  onClose: () => void;
+}
+
+const TITLES: Record<ListTab, string> = {
+  movies: 'Export movies',
+  tvshows: 'Export TV shows',
+  all: 'Export all titles',
+};
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'excel', label: 'Excel' },
+];
+
+export function ExportModal({ tab, columns, loadedItems, hasMore, query, onClose }: ExportModalProps) {
+  const [scope, setScope] = useState<'loaded' | 'all'>('loaded');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [raw, setRaw] = useState(false);
+  const [fetchedCount, setFetchedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isWorking = fetchedCount !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    let items = loadedItems;
+    if (scope === 'all' && hasMore) {
+      setFetchedCount(0);
+      try {
+        items = await fetchAllItems(tab, query, setFetchedCount);
+      } catch (fetchError) {
+        console.error('Failed to fetch rows for export:', fetchError);
+        setError(toApiError(fetchError).message);
+        setFetchedCount(null);
+        return;
+      }
+    }
+    const file = buildExport(tab, items, columns, format, raw);
+    downloadFile(file.filename, file.content, file.mimeType);
+    onClose();
+  };
+
+  const optionClass = 'flex items-center gap-2 text-sm text-gray-700';
+
+  return (
+    <Modal onClose={onClose} isBusy={isWorking} className="max-w-md">
+      <div className="p-6 space-y-5">
+        <ModalTitle className="text-lg font-medium text-gray-900">
+          {TITLES[tab]}
+        </ModalTitle>
+
+        <fieldset className="space-y-2" disabled={isWorking}>
+          <legend className="text-sm font-medium text-gray-700 mb-1">Rows</legend>
+          <label className={optionClass}>
+            <input type="radio" checked={scope === 'loaded'} onChange={() => setScope('loaded')} />
+            Loaded rows ({loadedItems.length})
+          </label>
+          <label className={optionClass}>
+            <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+            All rows matching the current filters
+          </label>
+        </fieldset>
+
+        <fieldset className="space-y-2" disabled={isWorking}>
+          <legend className="text-sm font-medium text-gray-700 mb-1">Format</legend>
+          <div className="flex gap-4">
+            {FORMATS.map(option => (
+              <label key={option.value} className={optionClass}>
+                <input type="radio" checked={format === option.value} onChange={() => setFormat(option.value)} />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className={optionClass}>
+          <input type="checkbox" checked={raw} disabled={isWorking} onChange={(e) => setRaw(e.target.checked)} />
+          Export raw values instead of table formatting
+        </label>
+
+        {isWorking && (
+          <p role="status" className="text-sm text-gray-500">Fetched {fetchedCount} rows...</p>
+        )}
+        {error && (
+          <div role="alert" className="px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isWorking}
+            className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isWorking ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
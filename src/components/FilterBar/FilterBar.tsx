@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import type { MediaFilters } from '../../types';
+
+const FILTER_DEBOUNCE_MS = 300;
+
+interface FilterBarProps {
+  filters: MediaFilters;
+  onChange: (filters: MediaFilters) => void;
+  yearLabel: string;
+}
+
+type RangeField = 'Budget' | 'Duration' | 'Year';
+
+const sameFilters = (a: MediaFilters, b: MediaFilters) => JSON.stringify(a) === JSON.stringify(b);
+
+export function FilterBar({ filters, onChange, yearLabel }: FilterBarProps) {
+  // Typing edits a local draft; the parent only sees it once input settles
+  const [draft, setDraft] = useState<MediaFilters>(filters);
+  const [syncedFilters, setSyncedFilters] = useState(filters);
+  const debouncedDraft = useDebouncedValue(draft, FILTER_DEBOUNCE_MS);
+
+  // Filters can also change from outside (tab switch, browser back/forward)
+  if (filters !== syncedFilters) {
+    setSyncedFilters(filters);
+    if (!sameFilters(filters, draft)) {
+      setDraft(filters);
+    }
+  }
+
+  useEffect(() => {
+    const isSettled = debouncedDraft === draft;
+    if (isSettled && !sameFilters(draft, filters)) {
+      onChange(draft);
+    }
+  }, [debouncedDraft, draft, filters, onChange]);
+
+  const updateText = (field: 'search' | 'location', value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const updateNumber = (field: keyof MediaFilters, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    onChange({});
+  };
+
+  const hasFilters = Object.values(draft).some((value) => value !== undefined);
+  const inputClassName =
+    'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-1 focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  const renderRange = (label: string, field: RangeField) => {
+    const minField = `min${field}` as keyof MediaFilters;
+    const maxField = `max${field}` as keyof MediaFilters;
+    return (
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            aria-label={`Minimum ${label.toLowerCase()}`}
+            placeholder="Min"
+            value={draft[minField] ?? ''}
+            onChange={(e) => updateNumber(minField, e.target.value)}
+            className={inputClassName}
+          />
+          <span className="text-gray-400">&ndash;</span>
+          <input
+            type="number"
+            aria-label={`Maximum ${label.toLowerCase()}`}
+            placeholder="Max"
+            value={draft[maxField] ?? ''}
+            onChange={(e) => updateNumber(maxField, e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="filter-search" className="block text-sm font-medium text-gray-700 mb-1">
+            Search
+          </label>
+          <input
+            id="filter-search"
+            type="search"
+            placeholder="Search by title or director"
+            value={draft.search ?? ''}
+            onChange={(e) => updateText('search', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:w-64">
+          <label htmlFor="filter-location" className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </label>
+          <input
+            id="filter-location"
+            type="text"
+            placeholder="Any location"
+            value={draft.location ?? ''}
+            onChange={(e) => updateText('location', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        {renderRange('Budget ($M)', 'Budget')}
+        {renderRange('Duration (min)', 'Duration')}
+        {renderRange(yearLabel, 'Year')}
+      </div>
+      {hasFilters && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
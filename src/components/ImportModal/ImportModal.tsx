@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react';
+import { Modal, ModalTitle } from '../Modal/Modal';
+import { buildErrorReport, guessMapping, IMPORT_FIELDS, readImportFile, validateRows } from '../../lib/importer';
+import type { ColumnMapping, ImportRow, ImportTable } from '../../lib/importer';
+import { toApiError } from '../../lib/errors';
+import { downloadFile } from '../../lib/download';
+import type { MediaFormData, MediaItem, MediaTab } from '../../types';
+
+interface ImportModalProps {
+  tab: MediaTab;
+  onCreate: (data: MediaFormData) => Promise<MediaItem>;
+  // Receives how many items were created so the caller can refresh its lists
+  onClose: (createdCount: number) => void;
+}
+
+interface ImportProgress {
+  done: number;
+  total: number;
+  created: number;
+  // Rows rejected by validation or by the server, for the error report
+  failed: ImportRow[];
+}
+
+export function ImportModal({ tab, onCreate, onClose }: ImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fields = IMPORT_FIELDS[tab];
+  const rows = useMemo(() => (table ? validateRows(tab, table, mapping) : []), [tab, table, mapping]);
+  const validRows = rows.filter(row => row.data);
+  const invalidRows = rows.filter(row => !row.data);
+  const isDone = progress !== null && progress.done === progress.total && !isWorking;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileError(null);
+    try {
+      const nextTable = await readImportFile(file);
+      if (nextTable.records.length === 0) {
+        throw new Error(`${file.name} does not contain any rows.`);
+      }
+      setFileName(file.name);
+      setTable(nextTable);
+      setMapping(guessMapping(tab, nextTable.headers));
+    } catch (error) {
+      setTable(null);
+      setFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Rows are created one at a time so progress is accurate and a failing row
+  // doesn't stop the rest; only a lost session or missing permission aborts.
+  const handleImport = async () => {
+    setIsWorking(true);
+    const failed = [...invalidRows];
+    let created = 0;
+    setProgress({ done: 0, total: validRows.length, created, failed });
+
+    for (let index = 0; index < validRows.length; index++) {
+      const row = validRows[index];
+      try {
+        await onCreate(row.data as MediaFormData);
+        created++;
+      } catch (error) {
+        failed.push({ ...row, errors: [toApiError(error).message] });
+        const { kind } = toApiError(error);
+        if (kind === 'unauthorized' || kind === 'forbidden') {
+          validRows.slice(index + 1).forEach(skipped =>
+            failed.push({ ...skipped, errors: ['Not imported: the import was stopped.'] })
+          );
+          setProgress({ done: validRows.length, total: validRows.length, created, failed: [...failed] });
+          break;
+        }
+      }
+      setProgress({ done: index + 1, total: validRows.length, created, failed: [...failed] });
+    }
+    setIsWorking(false);
+  };
+
+  const handleDownloadReport = () => {
+    if (!progress) return;
+    const sorted = [...progress.failed].sort((a, b) => a.row - b.row);
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'import';
+    downloadFile(`${baseName}-errors.csv`, buildErrorReport(sorted), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Modal onClose={() => onClose(progress?.created ?? 0)} isBusy={isWorking} className="max-w-3xl max-h-[90vh] overflow-y-auto">
+      <div className="p-6">
+        <ModalTitle className="text-lg font-medium text-gray-900 mb-2">
+          Import {tab === 'movies' ? 'movies' : 'TV shows'}
+        </ModalTitle>
+
+        {progress ? (
+          <div className="space-y-4">
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>{isDone ? 'Import finished' : 'Importing...'}</span>
+                <span>{progress.done} / {progress.total}</span>
+              </div>
+              <div
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={progress.total}
+                aria-valuenow={progress.done}
+                className="h-2 bg-gray-200 rounded-full overflow-hidden"
+              >
+                <div
+                  className="h-full bg-indigo-600 transition-all duration-200"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+            </div>
+            {isDone && (
+              <p className="text-sm text-gray-700">
+                {progress.created} created
+                {progress.failed.length > 0 && `, ${progress.failed.length} not imported`}.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Choose a CSV file with a header row, or a JSON file containing an array of objects.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:border-0 file:rounded-md file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+            />
+            {fileError && (
+              <div role="alert" className="px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+                {fileError}
+              </div>
+            )}
+
+            {table && (
+              <>
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-700 mb-2">Columns</legend>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {fields.map(field => (
+                      <div key={field.name}>
+                        <label htmlFor={`import-${field.name}`} className="block text-xs font-medium text-gray-500 mb-1">
+                          {field.label}
+                        </label>
+                        <select
+                          id={`import-${field.name}`}
+                          value={mapping[field.name] ?? ''}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field.name]: e.target.value }))}
+                          className="block w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:border-blue-500 focus:ring-blue-500"
+                        >
+                          <option value="">Not imported</option>
+                          {table.headers.map(header => (
+                            <option key={header} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </fieldset>
+
+                <div>
+                  <p className="text-sm text-gray-700 mb-2">
+                    {validRows.length} of {rows.length} rows ready to import
+                    {invalidRows.length > 0 && `, ${invalidRows.length} with errors`}.
+                  </p>
+                  <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Title</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {rows.map(row => (
+                          <tr key={row.row} className={row.data ? '' : 'bg-red-50'}>
+                            <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                            <td className="px-3 py-2 text-gray-900">{row.title || '-'}</td>
+                            <td className="px-3 py-2">
+                              {row.data ? (
+                                <span className="text-green-600">Ready</span>
+                              ) : (
+                                <ul className="text-xs text-red-600 space-y-0.5">
+                                  {row.errors.map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          {isDone && progress.failed.length > 0 && (
+            <button
+              type="button"
+              onClick={handleDownloadReport}
+              className="mr-auto px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100"
+            >
+              Download error report
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onClose(progress?.created ?? 0)}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            {isDone ? 'Close' : 'Cancel'}
+          </button>
+          {!progress && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={validRows.length === 0}
+              className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Import {validRows.length} {validRows.length === 1 ? 'row' : 'rows'}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
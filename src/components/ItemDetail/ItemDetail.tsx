@@ -0,0 +1,90 @@
+import { PosterThumbnail } from '../PosterThumbnail/PosterThumbnail';
+import { formatCell } from '../../lib/columns';
+import { formatTimestamp, SHOW_STATUS_LABELS, showStatus } from '../../lib/format';
+import type { Column, MediaItem } from '../../types';
+
+interface ItemDetailProps {
+  item: MediaItem;
+  // The tab's table columns, so values are formatted the same way as the list
+  columns: Column[];
+  onClose: () => void;
+  // Action buttons are only rendered for the handlers that are provided
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+const STATUS_STYLES = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  running: 'bg-green-100 text-green-800',
+  ended: 'bg-gray-100 text-gray-700',
+};
+
+export function ItemDetail({ item, columns, onClose, onEdit, onDelete }: ItemDetailProps) {
+  const status = item.type === 'tvshow' ? showStatus(item) : null;
+  // Title and type are shown in the heading
+  const fields = columns.filter(column => column.accessor !== 'title' && column.accessor !== 'type');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-6">
+        <PosterThumbnail src={item.poster} title={item.title} className="w-40 h-60 self-center sm:self-start" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium uppercase tracking-wider text-gray-500">
+            {item.type === 'movie' ? 'Movie' : 'TV Show'}
+          </p>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2 break-words">{item.title}</h2>
+          {status && (
+            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+              {SHOW_STATUS_LABELS[status]}
+            </span>
+          )}
+
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 mt-4">
+            {fields.map(column => (
+              <div key={column.accessor}>
+                <dt className="text-xs font-medium text-gray-500">{column.header}</dt>
+                <dd className="text-sm text-gray-900">{formatCell(column, item)}</dd>
+              </div>
+            ))}
+            <div>
+              <dt className="text-xs font-medium text-gray-500">Added</dt>
+              <dd className="text-sm text-gray-900">{formatTimestamp(item.createdAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs font-medium text-gray-500">Last updated</dt>
+              <dd className="text-sm text-gray-900">{formatTimestamp(item.updatedAt)}</dd>
+            </div>
+          </dl>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        {onDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+          >
+            Delete
+          </button>
+        )}
+        {onEdit && (
+          <button
+            type="button"
+            onClick={onEdit}
+            className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Edit
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
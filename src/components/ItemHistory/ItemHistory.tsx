@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useItemHistory } from '../../hooks/useItemHistory';
+import { formatTimestamp } from '../../lib/format';
+import { diffSnapshots } from '../../lib/history';
+import type { ItemVersion, MediaItem } from '../../types';
+
+interface ItemHistoryProps {
+  item: MediaItem;
+  // Omitted for users who can't edit; older versions then have no revert button
+  onRevert?: (version: ItemVersion) => Promise<void>;
+}
+
+const actionButton = 'text-xs font-medium px-2 py-1 rounded-md transition-colors duration-200';
+
+function VersionList({ item, onRevert }: ItemHistoryProps) {
+  const { versions, isLoading, error, retry } = useItemHistory(item);
+  const [confirmingRevert, setConfirmingRevert] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const handleRevert = async (version: ItemVersion) => {
+    if (!onRevert) return;
+    setConfirmingRevert(null);
+    setRevertingId(version.id);
+    try {
+      await onRevert(version);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div role="alert" className="flex items-center justify-between gap-4 text-sm text-red-700">
+        <p>{error.message}</p>
+        <button type="button" onClick={retry} className="font-medium hover:text-red-900 underline">
+          Retry
+        </button>
+      </div>
+    );
+  }
+  if (isLoading && versions.length === 0) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {versions.map((version, index) => {
+        const previous = versions[index + 1];
+        const changes = previous ? diffSnapshots(previous.snapshot, version.snapshot) : null;
+        return (
+          <li key={version.id} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{version.author.name}</span>{' '}
+                <span className="text-gray-500">{formatTimestamp(version.createdAt)}</span>
+                {index === 0 && (
+                  <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    Current
+                  </span>
+                )}
+              </p>
+              {onRevert && index > 0 && (confirmingRevert === version.id ? (
+                <span className="inline-flex items-center gap-1 text-xs text-gray-700">
+                  Revert to this version?
+                  <button type="button" onClick={() => handleRevert(version)} className={`${actionButton} text-white bg-indigo-600 hover:bg-indigo-700`}>
+                    Revert
+                  </button>
+                  <button type="button" onClick={() => setConfirmingRevert(null)} className={`${actionButton} text-gray-700 bg-gray-100 hover:bg-gray-200`}>
+                    Keep
+                  </button>
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmingRevert(version.id)}
+                  disabled={revertingId !== null}
+                  className={`${actionButton} text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50`}
+                >
+                  {revertingId === version.id ? 'Reverting...' : 'Revert'}
+                </button>
+              ))}
+            </div>
+            {changes === null ? (
+              <p className="mt-1 text-sm text-gray-500">Created</p>
+            ) : changes.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500">No field changes</p>
+            ) : (
+              <dl className="mt-2 space-y-1 text-sm">
+                {changes.map(change => (
+                  <div key={change.name} className="flex flex-wrap gap-x-2">
+                    <dt className="font-medium text-gray-700">{change.label}:</dt>
+                    <dd className="text-gray-900 break-all">
+                      <del className="text-red-700">{change.from}</del>
+                      {' → '}
+                      <ins className="text-green-700 no-underline">{change.to}</ins>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// Collapsible list of an item's saved versions; the history is only fetched
+// once the panel is opened
+export function ItemHistory({ item, onRevert }: ItemHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <section className="mt-6 pt-4 border-t border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1 text-sm font-medium text-gray-900"
+      >
+        <span aria-hidden="true">{isOpen ? '\u25BE' : '\u25B8'}</span>
+        History
+      </button>
+      {isOpen && (
+        <div className="mt-3">
+          <VersionList item={item} onRevert={onRevert} />
+        </div>
+      )}
+    </section>
+  );
+}
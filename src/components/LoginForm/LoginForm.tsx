@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { toApiError } from '../../lib/errors';
+import type { LoginCredentials } from '../../types';
+
+const loginSchema = z.object({
+  email: z.email('Enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+interface LoginFormProps {
+  onSubmit: (credentials: LoginCredentials) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function LoginForm({ onSubmit, onCancel }: LoginFormProps) {
+  const [credentials, setCredentials] = useState<LoginCredentials>({ email: '', password: '' });
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCredentials(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => ({ ...prev, [name]: [] }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const result = loginSchema.safeParse(credentials);
+    if (!result.success) {
+      const newErrors: Record<string, string[]> = {};
+      result.error.issues.forEach(issue => {
+        const path = issue.path[0] as string;
+        newErrors[path] = [...(newErrors[path] ?? []), issue.message];
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(result.data);
+    } catch (error) {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      setFormError(
+        apiError.kind === 'unauthorized' || apiError.kind === 'validation'
+          ? 'Invalid email or password.'
+          : apiError.message
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderField = (field: keyof LoginCredentials, label: string, type: string, autoComplete: string) => {
+    const showError = errors[field]?.length > 0;
+    return (
+      <div>
+        <label htmlFor={`login-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+        <input
+          id={`login-${field}`}
+          name={field}
+          type={type}
+          autoComplete={autoComplete}
+          value={credentials[field]}
+          onChange={handleChange}
+          className={`block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400
+            focus:outline-none focus:ring-1 sm:text-sm ${
+              showError
+                ? 'border-red-300 text-red-900 focus:border-red-500 focus:ring-red-500'
+                : 'border-gray-300 focus:border-blue-500 focus:ring-blue-500'
+            }`}
+        />
+        {showError && <p className="mt-1 text-xs text-red-600">{errors[field].join(', ')}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      <h2 className="text-xl font-semibold text-gray-900">Sign in</h2>
+      {formError && (
+        <div role="alert" className="px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+          {formError}
+        </div>
+      )}
+      {renderField('email', 'Email', 'email', 'username')}
+      {renderField('password', 'Password', 'password', 'current-password')}
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { PosterField } from '../PosterField/PosterField';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import type { MediaFormData } from '../../types';
+import type { FieldErrors } from '../../lib/errors';
+import type { FormFieldDescriptor, MediaFormConfig } from '../../lib/mediaForms';
+
+interface Props<T extends object> {
+  config: MediaFormConfig<T>;
+  initialData?: Partial<T & { id: string }>;
+  onSubmit: (data: T) => void;
+  onCancel: () => void;
+  // Field errors returned by the server for a previous submit of this data
+  serverErrors?: FieldErrors;
+}
+
+function collectErrors<T extends object>(config: MediaFormConfig<T>, data: Record<string, unknown>): FieldErrors {
+  const result = config.schema.safeParse(data);
+  if (result.success) return {};
+
+  const errors: FieldErrors = {};
+  result.error.issues.forEach(issue => {
+    const path = String(issue.path[0]);
+    errors[path] = [...(errors[path] ?? []), issue.message];
+  });
+  return errors;
+}
+
+// Values a rule depends on, as a comparable key
+const ruleKey = (dependsOn: string[], data: Record<string, unknown>) =>
+  JSON.stringify(dependsOn.map(name => data[name]));
+
+export default function MediaForm<T extends object = MediaFormData>({
+  config,
+  initialData,
+  onSubmit,
+  onCancel,
+  serverErrors = {},
+}: Props<T>) {
+  const [formData, setFormData] = useState<Record<string, unknown>>(() => {
+    const values: Record<string, unknown> = { ...config.defaults(), ...initialData };
+    // Stored items may hold '' for optional fields the form treats as unset
+    config.fields.forEach(field => {
+      if (field.optional && values[field.name] === '') values[field.name] = undefined;
+    });
+    return values;
+  });
+  // Several forms (e.g. one per season) can be on screen at once
+  const idPrefix = useId();
+  // Server errors stay on a field until the user edits it
+  const [remoteErrors, setRemoteErrors] = useState<FieldErrors>(serverErrors);
+  const [touched, setTouched] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(Object.keys(serverErrors).map(field => [field, true]))
+  );
+
+  // The whole form is validated together so cross-field rules stay current
+  // whichever of their fields changed
+  const clientErrors = useMemo(() => collectErrors(config, formData), [config, formData]);
+
+  // Async rules (e.g. uniqueness) run on the debounced values, skipping
+  // values that already fail the schema; the latest request per rule wins
+  const [asyncErrors, setAsyncErrors] = useState<FieldErrors>({});
+  const [checking, setChecking] = useState<Record<string, boolean>>({});
+  const debouncedData = useDebouncedValue(formData, 400);
+  const checkedKeys = useRef<string[] | null>(null);
+  const requestIds = useRef<number[]>([]);
+  const currentId = initialData?.id;
+
+  useEffect(() => {
+    const rules = config.asyncRules ?? [];
+    if (rules.length === 0) return;
+    // Values the form opened with were accepted before; only check edits
+    if (!checkedKeys.current) {
+      checkedKeys.current = rules.map(rule => ruleKey(rule.dependsOn, debouncedData));
+      return;
+    }
+
+    const checked = checkedKeys.current;
+    const schemaErrors = collectErrors(config, debouncedData);
+    rules.forEach((rule, index) => {
+      const key = ruleKey(rule.dependsOn, debouncedData);
+      if (checked[index] === key) return;
+      checked[index] = key;
+      if (rule.dependsOn.some(name => schemaErrors[name]?.length)) return;
+
+      const requestId = (requestIds.current[index] ?? 0) + 1;
+      requestIds.current[index] = requestId;
+      setChecking(prev => ({ ...prev, [rule.field]: true }));
+      rule.validate(debouncedData as Partial<T>, currentId)
+        .then(message => {
+          if (requestIds.current[index] !== requestId) return;
+          setAsyncErrors(prev => ({ ...prev, [rule.field]: message ? [message] : [] }));
+        })
+        .catch(error => console.error(`Failed to check ${rule.field}:`, error))
+        .finally(() => {
+          if (requestIds.current[index] === requestId) {
+            setChecking(prev => ({ ...prev, [rule.field]: false }));
+          }
+        });
+    });
+  }, [config, debouncedData, currentId]);
+
+  // Edits still inside the debounce window haven't been checked yet
+  const isChecking = (config.asyncRules ?? []).length > 0 &&
+    (debouncedData !== formData || Object.values(checking).some(Boolean));
+
+  // Image fields with an upload running; submitting then would save without it
+  const [uploading, setUploading] = useState<Record<string, boolean>>({});
+  const isUploading = Object.values(uploading).some(Boolean);
+
+  const fieldErrors = (name: string) => [
+    ...(touched[name] ? [...(clientErrors[name] ?? []), ...(remoteErrors[name] ?? [])] : []),
+    ...(asyncErrors[name] ?? []),
+  ];
+
+  const parseValue = (field: FormFieldDescriptor, value: string) => {
+    if (value.trim() === '' && field.optional) return undefined;
+    return field.input === 'number' ? parseFloat(value) || 0 : value;
+  };
+
+  const handleChange = (field: FormFieldDescriptor, value: string) => {
+    setFormData(prev => ({ ...prev, [field.name]: parseValue(field, value) }));
+    setRemoteErrors(prev => ({ ...prev, [field.name]: [] }));
+    // A result for the old values no longer applies
+    config.asyncRules?.forEach(rule => {
+      if (rule.dependsOn.includes(field.name)) {
+        setAsyncErrors(prev => ({ ...prev, [rule.field]: [] }));
+      }
+    });
+  };
+
+  const handleBlur = (field: FormFieldDescriptor) => {
+    setTouched(prev => ({ ...prev, [field.name]: true }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Submitting waits for async rules and uploads, so unchecked values and
+    // unfinished posters can't slip through
+    if (isChecking || isUploading) return;
+
+    const result = config.schema.safeParse(formData);
+    const hasAsyncErrors = Object.values(asyncErrors).some(messages => messages.length > 0);
+    if (result.success && !hasAsyncErrors) {
+      onSubmit(result.data);
+      return;
+    }
+    // Mark all fields as touched
+    setTouched(Object.fromEntries(config.fields.map(field => [field.name, true])));
+  };
+
+  const renderField = (field: FormFieldDescriptor) => {
+    const errors = fieldErrors(field.name);
+    const showError = errors.length > 0;
+    const inputId = `${idPrefix}-${field.name}`;
+
+    return (
+      <div key={field.name} className={`mb-4 ${field.input === 'image' ? 'sm:col-span-2' : ''}`}>
+        <label
+          htmlFor={inputId}
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          {field.label}
+        </label>
+        {field.input === 'image' ? (
+          <PosterField
+            id={inputId}
+            value={formData[field.name] as string | undefined}
+            title={String(formData.title ?? '')}
+            placeholder={field.placeholder}
+            onChange={(value) => handleChange(field, value)}
+            onBlur={() => handleBlur(field)}
+            onBusyChange={(isBusy) => setUploading(prev => ({ ...prev, [field.name]: isBusy }))}
+            hasError={showError}
+          />
+        ) : (
+          <input
+            id={inputId}
+            name={field.name}
+            type={field.input}
+            value={String(formData[field.name] || '')}
+            onChange={(e) => handleChange(field, e.target.value)}
+            onBlur={() => handleBlur(field)}
+            placeholder={field.placeholder}
+            className={`block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400
+              focus:outline-none focus:ring-1 sm:text-sm ${
+                showError
+                  ? 'border-red-300 text-red-900 focus:border-red-500 focus:ring-red-500'
+                  : 'border-gray-300 focus:border-blue-500 focus:ring-blue-500'
+              }`}
+          />
+        )}
+        {showError && (
+          <p className="mt-1 text-xs text-red-600">{errors.join(', ')}</p>
+        )}
+        {!showError && checking[field.name] && (
+          <p className="mt-1 text-xs text-gray-500">Checking...</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        {config.fields.map(renderField)}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isChecking || isUploading}
+          className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUploading ? 'Uploading...' : isChecking ? 'Checking...' : initialData?.id ? `Update ${config.noun}` : `Add ${config.noun}`}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,41 @@
+import * as Dialog from '@radix-ui/react-dialog';
+
+interface ModalProps {
+  // Names the dialog for screen readers. Leave it out when the content shows
+  // a ModalTitle of its own.
+  label?: string;
+  // Called on Escape as well as by the dialog's own buttons
+  onClose: () => void;
+  // Escape is ignored while work the dialog started is still running
+  isBusy?: boolean;
+  // Width and height classes for the panel
+  className?: string;
+  children: React.ReactNode;
+}
+
+// A modal dialog on Radix: focus stays inside while it's open and returns to
+// where it was when it closes. Clicking the backdrop doesn't close it, so
+// half-filled forms aren't lost.
+export function Modal({ label, onClose, isBusy = false, className = 'max-w-md', children }: ModalProps) {
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black bg-opacity-50" />
+        <Dialog.Content
+          // Descriptions are part of each dialog's content rather than a separate element
+          aria-describedby={undefined}
+          onInteractOutside={(e) => e.preventDefault()}
+          className={`fixed left-1/2 top-1/2 z-40 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] bg-white rounded-lg shadow-xl focus:outline-none ${className}`}
+        >
+          {label && <Dialog.Title className="sr-only">{label}</Dialog.Title>}
+          {children}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
+
+// The dialog's visible heading, which also names it for screen readers
+export function ModalTitle({ className, children }: { className?: string; children: React.ReactNode }) {
+  return <Dialog.Title className={className}>{children}</Dialog.Title>;
+}
@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react';
+import { PosterThumbnail } from '../PosterThumbnail/PosterThumbnail';
+import { uploadApi } from '../../lib/api';
+import { toApiError } from '../../lib/errors';
+import { checkPosterFile, POSTER_MAX_BYTES, POSTER_TYPES, resizeImage } from '../../lib/images';
+
+interface PosterFieldProps {
+  id: string;
+  value?: string;
+  // Used for the preview's alt text
+  title: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  // Told when an upload starts and when it finishes or fails, so the form
+  // can hold its submit until the URL is in
+  onBusyChange?: (isBusy: boolean) => void;
+  hasError?: boolean;
+}
+
+// Poster URL input with drag-and-drop upload. Images are checked and scaled
+// down in the browser, uploaded, and the returned URL becomes the value.
+export function PosterField({ id, value, title, placeholder, onChange, onBlur, onBusyChange, hasError = false }: PosterFieldProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [localPreview, setLocalPreview] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const isUploading = progress !== null;
+
+  const upload = async (file: File) => {
+    const problem = checkPosterFile(file);
+    if (problem) {
+      setUploadError(problem);
+      return;
+    }
+
+    setUploadError(null);
+    const preview = URL.createObjectURL(file);
+    setLocalPreview(preview);
+    setProgress(0);
+    onBusyChange?.(true);
+    try {
+      const image = await resizeImage(file);
+      const response = await uploadApi.poster(image, file.name, setProgress);
+      onChange(response.data.url);
+    } catch (error) {
+      console.error('Failed to upload poster:', error);
+      setUploadError(toApiError(error).message);
+    } finally {
+      setProgress(null);
+      setLocalPreview(null);
+      URL.revokeObjectURL(preview);
+      onBusyChange?.(false);
+      onBlur();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !isUploading) upload(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) upload(file);
+  };
+
+  return (
+    <div className="flex gap-4">
+      <PosterThumbnail src={localPreview ?? value} title={title || 'this item'} className="w-24 h-36" />
+      <div className="flex-1 min-w-0 space-y-2">
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center px-3 py-4 border-2 border-dashed rounded-md text-center text-sm ${
+            isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300'
+          }`}
+        >
+          {isUploading ? (
+            <div className="w-full">
+              <p className="text-gray-700 mb-1">Uploading... {Math.round(progress * 100)}%</p>
+              <div
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+                className="h-2 bg-gray-200 rounded-full overflow-hidden"
+              >
+                <div className="h-full bg-indigo-600 transition-all duration-200" style={{ width: `${progress * 100}%` }} />
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-700">
+                Drag an image here or{' '}
+                <button
+                  type="button"
+                  onClick={() => fileInput.current?.click()}
+                  className="font-medium text-indigo-600 hover:text-indigo-800 underline"
+                >
+                  choose a file
+                </button>
+              </p>
+              <p className="text-xs text-gray-500">
+                JPEG, PNG or WebP up to {POSTER_MAX_BYTES / (1024 * 1024)} MB
+              </p>
+            </>
+          )}
+          <input
+            ref={fileInput}
+            type="file"
+            accept={POSTER_TYPES.join(',')}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            id={id}
+            type="url"
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+            onBlur={onBlur}
+            placeholder={placeholder}
+            readOnly={isUploading}
+            className={`block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400
+              focus:outline-none focus:ring-1 sm:text-sm ${
+                hasError
+                  ? 'border-red-300 text-red-900 focus:border-red-500 focus:ring-red-500'
+                  : 'border-gray-300 focus:border-blue-500 focus:ring-blue-500'
+              }`}
+          />
+          {value && !isUploading && (
+            <button
+              type="button"
+              onClick={() => onChange('')}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        {uploadError && <p role="alert" className="text-xs text-red-600">{uploadError}</p>}
+      </div>
+    </div>
+  );
+}
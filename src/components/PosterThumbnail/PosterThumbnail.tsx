@@ -0,0 +1,43 @@
+import { useState } from 'react';
+
+interface PosterThumbnailProps {
+  src?: string;
+  title: string;
+  // Tailwind size classes; defaults to a table-row thumbnail
+  className?: string;
+}
+
+// Lazily loaded poster image with a placeholder for missing or broken images
+export function PosterThumbnail({ src, title, className = 'w-10 h-14' }: PosterThumbnailProps) {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  if (!src || failedSrc === src) {
+    return (
+      <div
+        role="img"
+        aria-label={`No poster for ${title}`}
+        className={`${className} flex items-center justify-center rounded bg-gray-100 text-gray-400 shrink-0`}
+      >
+        <svg className="w-1/2 h-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt={`Poster for ${title}`}
+      loading="lazy"
+      decoding="async"
+      onError={() => setFailedSrc(src)}
+      className={`${className} object-cover rounded bg-gray-100 shrink-0`}
+    />
+  );
+}
@@ -0,0 +1,98 @@
+export interface Point {
+  id: string;
+  x: number;
+  y: number;
+  label: string;
+  // Points in the same series share a colour
+  series: string;
+}
+
+interface ScatterPlotProps {
+  title: string;
+  points: Point[];
+  xLabel: string;
+  yLabel: string;
+  // Fill colour per series, also used for the legend
+  colors: Record<string, string>;
+  formatX?: (value: number) => string;
+  formatY?: (value: number) => string;
+  emptyText?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 16, bottom: 36, left: 56 };
+
+// An SVG scatter plot with linear axes starting at zero; hovering a point
+// shows its label through the native tooltip
+export function ScatterPlot({
+  title,
+  points,
+  xLabel,
+  yLabel,
+  colors,
+  formatX = String,
+  formatY = String,
+  emptyText = 'No data yet.',
+}: ScatterPlotProps) {
+  const maxX = Math.max(1, ...points.map(point => point.x));
+  const maxY = Math.max(1, ...points.map(point => point.y));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const toX = (value: number) => PADDING.left + (value / maxX) * plotWidth;
+  const toY = (value: number) => PADDING.top + plotHeight - (value / maxY) * plotHeight;
+  const ticks = [0, 0.5, 1];
+
+  return (
+    <figure className="p-4 bg-white border border-gray-200 rounded-lg">
+      <figcaption className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm font-medium text-gray-900">
+        {title}
+        <span className="flex gap-3 text-xs font-normal text-gray-600">
+          {Object.entries(colors).map(([series, color]) => (
+            <span key={series} className="inline-flex items-center gap-1">
+              <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} aria-hidden="true" />
+              {series}
+            </span>
+          ))}
+        </span>
+      </figcaption>
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={`${title}: ${points.length} titles plotted by ${xLabel.toLowerCase()} and ${yLabel.toLowerCase()}`}
+        >
+          {ticks.map(tick => (
+            <g key={tick} className="text-[10px] fill-gray-500">
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={toY(tick * maxY)} y2={toY(tick * maxY)} className="stroke-gray-200" />
+              <text x={PADDING.left - 6} y={toY(tick * maxY)} textAnchor="end" dominantBaseline="middle">
+                {formatY(Math.round(tick * maxY))}
+              </text>
+              <text x={toX(tick * maxX)} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle">
+                {formatX(Math.round(tick * maxX))}
+              </text>
+            </g>
+          ))}
+          <text x={PADDING.left + plotWidth / 2} y={HEIGHT - 4} textAnchor="middle" className="text-[11px] fill-gray-600">
+            {xLabel}
+          </text>
+          <text
+            transform={`translate(12 ${PADDING.top + plotHeight / 2}) rotate(-90)`}
+            textAnchor="middle"
+            className="text-[11px] fill-gray-600"
+          >
+            {yLabel}
+          </text>
+          {points.map(point => (
+            <circle key={point.id} cx={toX(point.x)} cy={toY(point.y)} r={4} fill={colors[point.series]} fillOpacity={0.7}>
+              <title>{`${point.label}: ${formatX(point.x)}, ${formatY(point.y)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import MediaForm from '../MediaForm/MediaForm';
+import { useSeasons } from '../../hooks/useSeasons';
+import { useToast } from '../../hooks/useToast';
+import { episodeForm, seasonForm } from '../../lib/mediaForms';
+import {
+  createEpisode,
+  createSeason,
+  deleteEpisode,
+  deleteSeason,
+  updateEpisode,
+  updateSeason,
+} from '../../lib/seasons';
+import { toApiError } from '../../lib/errors';
+import type { FieldErrors } from '../../lib/errors';
+import type { Episode, EpisodeFormData, Season, SeasonFormData, TVShow } from '../../types';
+
+interface SeasonListProps {
+  show: TVShow;
+  canCreate: boolean;
+  canUpdate: boolean;
+  canDelete: boolean;
+}
+
+// Which inline form is open: a new or existing season, or a new or existing
+// episode of a season. Only one is open at a time.
+type Editor =
+  | { kind: 'season'; season?: Season }
+  | { kind: 'episode'; seasonId: string; episode?: Episode };
+
+// A submit the server rejected, shown again with its field errors
+interface Rejection {
+  attempt: number;
+  values: SeasonFormData | EpisodeFormData;
+  errors: FieldErrors;
+}
+
+const formatDate = (date?: string) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString() : '?';
+
+const formatAirDates = (season: Season) =>
+  season.premiereDate || season.finaleDate
+    ? `${formatDate(season.premiereDate)} – ${formatDate(season.finaleDate)}`
+    : 'Air dates not set';
+
+const linkButton = 'text-xs font-medium px-2 py-1 rounded-md transition-colors duration-200';
+
+export function SeasonList({ show, canCreate, canUpdate, canDelete }: SeasonListProps) {
+  const { seasons, isLoading, error, retry } = useSeasons(show.id);
+  const { showToast } = useToast();
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [rejection, setRejection] = useState<Rejection | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+
+  const toggleSeason = (seasonId: string) => {
+    const next = new Set(expandedIds);
+    if (next.has(seasonId)) {
+      next.delete(seasonId);
+    } else {
+      next.add(seasonId);
+    }
+    setExpandedIds(next);
+  };
+
+  const openEditor = (next: Editor | null) => {
+    setEditor(next);
+    setRejection(null);
+    setConfirmingDelete(null);
+  };
+
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    failureTitle: string,
+    values?: SeasonFormData | EpisodeFormData
+  ) => {
+    try {
+      await action();
+      openEditor(null);
+      showToast({ type: 'success', message: successMessage });
+    } catch (actionError) {
+      console.error(`${failureTitle}:`, actionError);
+      const apiError = toApiError(actionError);
+      if (values) {
+        setRejection(prev => ({ attempt: (prev?.attempt ?? 0) + 1, values, errors: apiError.fieldErrors }));
+      }
+      showToast({ type: 'error', title: failureTitle, message: apiError.message });
+    }
+  };
+
+  const handleSeasonSubmit = (data: SeasonFormData) => {
+    if (editor?.kind !== 'season') return;
+    const { season } = editor;
+    return season
+      ? run(() => updateSeason(show.id, season.id, data), `Season ${data.seasonNumber} updated.`, 'Could not update season', data)
+      : run(() => createSeason(show.id, data), `Season ${data.seasonNumber} added.`, 'Could not add season', data);
+  };
+
+  const handleEpisodeSubmit = (data: EpisodeFormData) => {
+    if (editor?.kind !== 'episode') return;
+    const { seasonId, episode } = editor;
+    return episode
+      ? run(() => updateEpisode(show.id, seasonId, episode.id, data), `Episode "${data.title}" updated.`, 'Could not update episode', data)
+      : run(() => createEpisode(show.id, seasonId, data), `Episode "${data.title}" added.`, 'Could not add episode', data);
+  };
+
+  const handleDeleteSeason = (season: Season) =>
+    run(() => deleteSeason(show.id, season.id), `Season ${season.seasonNumber} deleted.`, 'Could not delete season');
+
+  const handleDeleteEpisode = (season: Season, episode: Episode) =>
+    run(() => deleteEpisode(show.id, season.id, episode.id), `Episode "${episode.title}" deleted.`, 'Could not delete episode');
+
+  const renderForm = (key: string) => {
+    if (!editor) return null;
+    const formKey = `${key}-${rejection?.attempt ?? 0}`;
+    return (
+      <div className="p-4 bg-white border border-gray-200 rounded-md">
+        {editor.kind === 'season' ? (
+          <MediaForm
+            key={formKey}
+            config={seasonForm}
+            initialData={(rejection?.values as SeasonFormData | undefined) ?? editor.season ?? {
+              seasonNumber: (seasons.at(-1)?.seasonNumber ?? 0) + 1,
+            }}
+            serverErrors={rejection?.errors}
+            onSubmit={handleSeasonSubmit}
+            onCancel={() => openEditor(null)}
+          />
+        ) : (
+          <MediaForm
+            key={formKey}
+            config={episodeForm}
+            initialData={(rejection?.values as EpisodeFormData | undefined) ?? editor.episode ?? {
+              episodeNumber: (seasons.find(season => season.id === editor.seasonId)?.episodes.at(-1)?.episodeNumber ?? 0) + 1,
+            }}
+            serverErrors={rejection?.errors}
+            onSubmit={handleEpisodeSubmit}
+            onCancel={() => openEditor(null)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderDeleteConfirm = (label: string, onConfirm: () => void) => (
+    <span className="inline-flex items-center gap-1 text-xs text-gray-700">
+      Delete {label}?
+      <button type="button" onClick={onConfirm} className={`${linkButton} text-white bg-red-600 hover:bg-red-700`}>
+        Delete
+      </button>
+      <button type="button" onClick={() => setConfirmingDelete(null)} className={`${linkButton} text-gray-700 bg-gray-100 hover:bg-gray-200`}>
+        Keep
+      </button>
+    </span>
+  );
+
+  const renderEpisodes = (season: Season) => (
+    <div className="mt-3 ml-4 space-y-3">
+      {season.episodes.length === 0 ? (
+        <p className="text-sm text-gray-500">No episodes yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md bg-white">
+          {season.episodes.map(episode => (
+            <li key={episode.id} className="px-3 py-2 text-sm">
+              {editor?.kind === 'episode' && editor.episode?.id === episode.id ? (
+                renderForm(episode.id)
+              ) : (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                  <span className="font-medium text-gray-900">
+                    {episode.episodeNumber}. {episode.title}
+                  </span>
+                  {episode.airDate && <span className="text-gray-500">{formatDate(episode.airDate)}</span>}
+                  <span className={episode.director ? 'text-gray-700' : 'text-gray-400 italic'}>
+                    {episode.director ?? show.director}
+                  </span>
+                  <span className="ml-auto space-x-1">
+                    {confirmingDelete === episode.id ? (
+                      renderDeleteConfirm(`episode ${episode.episodeNumber}`, () => handleDeleteEpisode(season, episode))
+                    ) : (
+                      <>
+                        {canUpdate && (
+                          <button
+                            type="button"
+                            onClick={() => openEditor({ kind: 'episode', seasonId: season.id, episode })}
+                            className={`${linkButton} text-indigo-600 bg-indigo-50 hover:text-indigo-900`}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type="button"
+                            onClick={() => setConfirmingDelete(episode.id)}
+                            className={`${linkButton} text-red-600 bg-red-50 hover:text-red-900`}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {editor?.kind === 'episode' && editor.seasonId === season.id && !editor.episode ? (
+        renderForm(`new-episode-${season.id}`)
+      ) : (
+        canCreate && (
+          <button
+            type="button"
+            onClick={() => openEditor({ kind: 'episode', seasonId: season.id })}
+            className={`${linkButton} text-green-700 bg-green-50 hover:bg-green-100`}
+          >
+            Add episode
+          </button>
+        )
+      )}
+    </div>
+  );
+
+  if (isLoading && seasons.length === 0) {
+    return <p className="text-sm text-gray-500">Loading seasons...</p>;
+  }
+
+  if (error && seasons.length === 0) {
+    return (
+      <div role="alert" className="flex items-center gap-3 text-sm text-red-700">
+        {error.message}
+        <button type="button" onClick={retry} className="font-medium underline hover:text-red-900">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-900">Seasons of {show.title}</h4>
+      {seasons.length === 0 && <p className="text-sm text-gray-500">No seasons yet.</p>}
+      <ul className="space-y-2">
+        {seasons.map(season => {
+          const isExpanded = expandedIds.has(season.id);
+          return (
+            <li key={season.id} className="p-3 border border-gray-200 rounded-md bg-gray-50">
+              {editor?.kind === 'season' && editor.season?.id === season.id ? (
+                renderForm(season.id)
+              ) : (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => toggleSeason(season.id)}
+                    aria-expanded={isExpanded}
+                    className="inline-flex items-center gap-1 font-medium text-gray-900 hover:text-indigo-600"
+                  >
+                    <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span>
+                    Season {season.seasonNumber}
+                  </button>
+                  <span className="text-gray-700">
+                    {season.episodes.length} of {season.episodeCount} episodes
+                  </span>
+                  <span className="text-gray-500">{formatAirDates(season)}</span>
+                  <span className="ml-auto space-x-1">
+                    {confirmingDelete === season.id ? (
+                      renderDeleteConfirm(`season ${season.seasonNumber} and its episodes`, () => handleDeleteSeason(season))
+                    ) : (
+                      <>
+                        {canUpdate && (
+                          <button
+                            type="button"
+                            onClick={() => openEditor({ kind: 'season', season })}
+                            className={`${linkButton} text-indigo-600 bg-indigo-50 hover:text-indigo-900`}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type="button"
+                            onClick={() => setConfirmingDelete(season.id)}
+                            className={`${linkButton} text-red-600 bg-red-50 hover:text-red-900`}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </span>
+                </div>
+              )}
+              {isExpanded && renderEpisodes(season)}
+            </li>
+          );
+        })}
+      </ul>
+      {editor?.kind === 'season' && !editor.season ? (
+        renderForm('new-season')
+      ) : (
+        canCreate && (
+          <button
+            type="button"
+            onClick={() => openEditor({ kind: 'season' })}
+            className={`${linkButton} text-green-700 bg-green-50 hover:bg-green-100`}
+          >
+            Add season
+          </button>
+        )
+      )}
+    </div>
+  );
+}
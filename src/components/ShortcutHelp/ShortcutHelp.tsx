@@ -0,0 +1,52 @@
+import { Modal, ModalTitle } from '../Modal/Modal';
+import { PAGE_SHORTCUTS, ROW_SHORTCUTS } from '../../lib/shortcuts';
+import type { Shortcut } from '../../lib/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const renderGroup = (heading: string, shortcuts: Shortcut[]) => (
+  <section className="mb-4 last:mb-0">
+    <h4 className="text-sm font-medium text-gray-500 mb-2">{heading}</h4>
+    <dl className="space-y-2">
+      {shortcuts.map((shortcut) => (
+        <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+          <dt className="flex gap-1">
+            {shortcut.keys.map((key) => (
+              <kbd
+                key={key}
+                className="min-w-[1.75rem] px-1.5 py-0.5 text-center text-xs font-mono text-gray-800 bg-gray-100 border border-gray-300 rounded"
+              >
+                {key}
+              </kbd>
+            ))}
+          </dt>
+          <dd className="text-gray-700 text-right">{shortcut.description}</dd>
+        </div>
+      ))}
+    </dl>
+  </section>
+);
+
+// Lists the keyboard shortcuts; opened with "?"
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-6">
+        <ModalTitle className="text-lg font-medium text-gray-900 mb-4">Keyboard shortcuts</ModalTitle>
+        {renderGroup('Anywhere on a list', PAGE_SHORTCUTS)}
+        {renderGroup('On a focused row', ROW_SHORTCUTS)}
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
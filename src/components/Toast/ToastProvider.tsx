@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { ToastContext } from './toastContext';
+import type { Toast, ToastOptions, ToastType } from './toastContext';
+
+const DEFAULT_DURATION = 5000;
+
+const typeStyles: Record<ToastType, string> = {
+  success: 'border-green-500',
+  error: 'border-red-500',
+  info: 'border-indigo-500',
+};
+
+const typeIcons: Record<ToastType, ReactNode> = {
+  success: (
+    <svg className="w-5 h-5 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+    </svg>
+  ),
+  error: (
+    <svg className="w-5 h-5 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+  info: (
+    <svg className="w-5 h-5 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+};
+
+function ToastItem({ toast, onDismiss }: { toast: Toast; onDismiss: (id: number) => void }) {
+  const duration = toast.duration ?? DEFAULT_DURATION;
+
+  useEffect(() => {
+    if (duration === 0) return;
+    const timeout = setTimeout(() => onDismiss(toast.id), duration);
+    return () => clearTimeout(timeout);
+  }, [toast.id, duration, onDismiss]);
+
+  return (
+    <div
+      role={toast.type === 'error' ? 'alert' : 'status'}
+      className={`pointer-events-auto w-full max-w-sm bg-white shadow-lg rounded-lg border-l-4 ${typeStyles[toast.type]}`}
+    >
+      <div className="p-4 flex items-start gap-3">
+        <div className="flex-shrink-0">{typeIcons[toast.type]}</div>
+        <div className="flex-1 min-w-0">
+          {toast.title && <p className="text-sm font-medium text-gray-900">{toast.title}</p>}
+          <p className="text-sm text-gray-700">{toast.message}</p>
+          {toast.action && (
+            <button
+              type="button"
+              onClick={() => {
+                toast.action?.onClick();
+                onDismiss(toast.id);
+              }}
+              className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-900"
+            >
+              {toast.action.label}
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onDismiss(toast.id)}
+          className="flex-shrink-0 text-gray-400 hover:text-gray-600"
+        >
+          <span className="sr-only">Dismiss</span>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((options: ToastOptions) => {
+    const id = ++nextId.current;
+    setToasts(prev => [...prev, { ...options, id }]);
+    return id;
+  }, []);
+
+  const value = useMemo(() => ({ showToast, dismissToast }), [showToast, dismissToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div
+        aria-live="polite"
+        className="fixed inset-x-0 bottom-0 z-50 flex flex-col items-center gap-2 p-4 pointer-events-none sm:items-end"
+      >
+        {toasts.map(toast => (
+          <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
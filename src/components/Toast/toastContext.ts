@@ -0,0 +1,26 @@
+import { createContext } from 'react';
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface ToastOptions {
+  type: ToastType;
+  message: string;
+  title?: string;
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
+  // Milliseconds before the toast dismisses itself; 0 keeps it until closed
+  duration?: number;
+}
+
+export interface Toast extends ToastOptions {
+  id: number;
+}
+
+export interface ToastContextValue {
+  showToast: (options: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+export const ToastContext = createContext<ToastContextValue | null>(null);
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { PosterThumbnail } from '../PosterThumbnail/PosterThumbnail';
+import { useTrash } from '../../hooks/useTrash';
+import { useToast } from '../../hooks/useToast';
+import { toApiError } from '../../lib/errors';
+import { formatTimestamp } from '../../lib/format';
+import { purgeFromTrash, restoreFromTrash } from '../../lib/trash';
+import type { MediaItem } from '../../types';
+
+const actionButton = 'text-xs font-medium px-2 py-1 rounded-md transition-colors duration-200';
+
+const typeLabel = (item: MediaItem) => (item.type === 'movie' ? 'Movie' : 'TV Show');
+
+// Soft-deleted items of both types, with restore and permanent deletion
+export function TrashList() {
+  const { items, hasMore, isLoading, error, loadMore, retry } = useTrash();
+  const { showToast } = useToast();
+  const [confirmingPurge, setConfirmingPurge] = useState<string | null>(null);
+  // Rows with a request in flight, so their buttons can't be pressed twice
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  const run = async (item: MediaItem, action: () => Promise<unknown>, successMessage: string, failureTitle: string) => {
+    setConfirmingPurge(null);
+    setBusyIds(prev => new Set(prev).add(item.id));
+    try {
+      await action();
+      showToast({ type: 'success', message: successMessage });
+    } catch (actionError) {
+      console.error(`${failureTitle}:`, actionError);
+      showToast({ type: 'error', title: failureTitle, message: toApiError(actionError).message });
+    } finally {
+      setBusyIds(prev => {
+        const next = new Set(prev);
+        next.delete(item.id);
+        return next;
+      });
+    }
+  };
+
+  const handleRestore = (item: MediaItem) =>
+    run(item, () => restoreFromTrash(item), `${typeLabel(item)} "${item.title}" restored.`, `Could not restore "${item.title}"`);
+
+  const handlePurge = (item: MediaItem) =>
+    run(item, () => purgeFromTrash(item), `${typeLabel(item)} "${item.title}" permanently deleted.`, `Could not delete "${item.title}"`);
+
+  const renderActions = (item: MediaItem) => {
+    if (confirmingPurge === item.id) {
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-gray-700">
+          Delete forever?
+          <button type="button" onClick={() => handlePurge(item)} className={`${actionButton} text-white bg-red-600 hover:bg-red-700`}>
+            Delete
+          </button>
+          <button type="button" onClick={() => setConfirmingPurge(null)} className={`${actionButton} text-gray-700 bg-gray-100 hover:bg-gray-200`}>
+            Keep
+          </button>
+        </span>
+      );
+    }
+    const isBusy = busyIds.has(item.id);
+    return (
+      <span className="inline-flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleRestore(item)}
+          disabled={isBusy}
+          className={`${actionButton} text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50`}
+        >
+          Restore
+        </button>
+        <button
+          type="button"
+          onClick={() => setConfirmingPurge(item.id)}
+          disabled={isBusy}
+          className={`${actionButton} text-red-700 bg-red-50 hover:bg-red-100 disabled:opacity-50`}
+        >
+          Delete forever
+        </button>
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Trash</h2>
+        <p className="text-sm text-gray-500">Deleted movies and TV shows stay here until they're restored or deleted forever.</p>
+      </div>
+
+      {error && (
+        <div role="alert" className="flex items-center justify-between gap-4 px-4 py-3 bg-red-50 border-b border-red-200">
+          <p className="text-sm text-red-700">{error.message}</p>
+          <button type="button" onClick={retry} className="text-sm font-medium text-red-700 hover:text-red-900 underline">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {items.length === 0 && !error && (
+        <p className="px-4 py-8 text-center text-sm text-gray-500">
+          {isLoading ? 'Loading trash...' : 'The trash is empty.'}
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {items.map(item => (
+          <li key={item.id} className="flex flex-wrap items-center gap-4 px-4 py-3">
+            <PosterThumbnail src={item.poster} title={item.title} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+              <p className="text-xs text-gray-500">
+                <span className="inline-flex px-2 py-0.5 mr-2 rounded-full font-medium bg-indigo-100 text-indigo-800">
+                  {typeLabel(item)}
+                </span>
+                Deleted {formatTimestamp(item.deletedAt)}
+              </p>
+            </div>
+            {renderActions(item)}
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && items.length > 0 && (
+        <div className="flex justify-center p-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { authApi } from '../lib/api';
+import { getSession, setSession, subscribeSession } from '../lib/auth';
+import { hasPermission } from '../lib/permissions';
+import type { Permission } from '../lib/permissions';
+import type { LoginCredentials } from '../types';
+
+export function useAuth() {
+  const session = useSyncExternalStore(subscribeSession, getSession);
+
+  const signIn = useCallback(async (credentials: LoginCredentials) => {
+    const response = await authApi.login(credentials);
+    setSession(response.data);
+    return response.data.user;
+  }, []);
+
+  // Revoking the refresh token is best-effort; the local session is cleared regardless
+  const signOut = useCallback(async () => {
+    const current = getSession();
+    if (!current) return;
+    try {
+      await authApi.logout(current.refreshToken);
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    } finally {
+      setSession(null);
+    }
+  }, []);
+
+  const user = session?.user ?? null;
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+
+  return {
+    user,
+    isAuthenticated: session !== null,
+    can,
+    signIn,
+    signOut,
+  };
+}
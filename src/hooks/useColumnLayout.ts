@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { columnsForTab } from '../lib/columns';
+import {
+  applyLayout,
+  getLayouts,
+  loadServerLayouts,
+  resetLayout,
+  resolveLayout,
+  saveLayout,
+  subscribe,
+} from '../lib/columnLayout';
+import type { ColumnLayout, ListTab } from '../types';
+
+// The tab's column layout and the columns it produces. Layouts saved for
+// `userId` on the server replace the local ones when that user signs in.
+export function useColumnLayout(tab: ListTab, userId?: string) {
+  const layouts = useSyncExternalStore(subscribe, getLayouts);
+  const layout = useMemo(() => resolveLayout(tab, layouts[tab]), [tab, layouts]);
+  const columns = useMemo(() => applyLayout(columnsForTab(tab), layout), [tab, layout]);
+
+  useEffect(() => {
+    if (!userId) return;
+    loadServerLayouts().catch(error => console.error('Failed to load column layouts:', error));
+  }, [userId]);
+
+  const setLayout = useCallback((next: ColumnLayout) => saveLayout(tab, next), [tab]);
+  const reset = useCallback(() => resetLayout(tab), [tab]);
+
+  return { layout, columns, setLayout, reset };
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { fetchHistory, getHistoryEntry, subscribe } from '../lib/history';
+import type { MediaItem } from '../types';
+
+// Reads an item's versions from the history store. It refetches whenever the
+// item's `updatedAt` moves on, since every save adds a version.
+export function useItemHistory(item: MediaItem) {
+  const { id, type, updatedAt } = item;
+  const entry = useSyncExternalStore(subscribe, () => getHistoryEntry(id));
+
+  useEffect(() => {
+    fetchHistory({ id, type }).catch(error => console.error('Failed to fetch history:', error));
+  }, [id, type, updatedAt]);
+
+  const retry = useCallback(() => {
+    fetchHistory({ id, type }).catch(error => console.error('Failed to fetch history:', error));
+  }, [id, type]);
+
+  return {
+    versions: entry?.versions ?? [],
+    isLoading: entry?.isLoading ?? true,
+    error: entry?.error,
+    retry,
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { cacheKey, fetchList, getEntry, subscribe } from '../lib/mediaCache';
+import type { ListQuery } from '../lib/api';
+import type { ListTab } from '../types';
+
+// Reads a paginated list from the media cache, fetching it on first use,
+// whenever a mutation elsewhere has marked it stale, and on revisiting a list
+// whose last fetch failed. `initialPages` is only used when nothing is cached
+// yet (e.g. restoring a reloaded URL).
+export function useMediaList(tab: ListTab, query: ListQuery, initialPages = 1) {
+  const key = cacheKey(tab, query);
+  const entry = useSyncExternalStore(subscribe, () => getEntry(key));
+  const isStale = entry?.isStale ?? false;
+
+  useEffect(() => {
+    const current = getEntry(key);
+    if (current && !current.isStale && !current.error) return;
+    fetchList(tab, query, 1, Math.max(current?.page ?? 0, initialPages))
+      .catch(error => console.error('Failed to fetch data:', error));
+  }, [key, tab, query, initialPages, isStale]);
+
+  const loadMore = useCallback(() => {
+    fetchList(tab, query, (getEntry(key)?.page ?? 0) + 1)
+      .catch(error => console.error('Failed to fetch data:', error));
+  }, [key, tab, query]);
+
+  // Retries whichever request failed: the first page, or the next page after what's loaded
+  const retry = useCallback(() => {
+    if ((getEntry(key)?.page ?? 0) > 0) {
+      loadMore();
+      return;
+    }
+    fetchList(tab, query, 1, initialPages)
+      .catch(error => console.error('Failed to fetch data:', error));
+  }, [key, tab, query, initialPages, loadMore]);
+
+  return {
+    key,
+    items: entry?.items ?? [],
+    page: entry?.page ?? 0,
+    hasMore: entry?.hasMore ?? true,
+    isLoading: entry?.isLoading ?? true,
+    error: entry?.error,
+    loadMore,
+    retry,
+  };
+}
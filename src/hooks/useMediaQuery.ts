@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Tracks a CSS media query, e.g. Tailwind's `sm` breakpoint
+export function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback((listener: () => void) => {
+    const list = window.matchMedia(query);
+    list.addEventListener('change', listener);
+    return () => list.removeEventListener('change', listener);
+  }, [query]);
+
+  return useSyncExternalStore(subscribe, () => window.matchMedia(query).matches);
+}
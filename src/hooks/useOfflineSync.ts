@@ -0,0 +1,51 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { replayQueue } from '../lib/mediaCache';
+import type { ReplayReport } from '../lib/mediaCache';
+import { getPendingIds, loadQueue, subscribe } from '../lib/offlineQueue';
+
+// navigator.onLine can stay true while the server is unreachable, so a
+// non-empty queue is also retried on a timer
+const RETRY_INTERVAL = 15000;
+
+function subscribeOnline(listener: () => void) {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+}
+
+let queueLoaded: Promise<void> | null = null;
+
+// Loads the saved queue once, then replays it whenever the browser comes back
+// online. `onReport` receives the outcome of every replay that sent anything.
+export function useOfflineSync(onReport: (report: ReplayReport) => void) {
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+  const pendingIds = useSyncExternalStore(subscribe, getPendingIds);
+  const hasPending = pendingIds.size > 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    const sync = () => {
+      replayQueue()
+        .then(report => {
+          if (report.synced + report.failed.length + report.conflicts.length > 0) onReport(report);
+        })
+        .catch(error => console.error('Failed to sync offline changes:', error));
+    };
+
+    // The queue is loaded even offline, so pending rows show their badge
+    queueLoaded ??= loadQueue();
+    queueLoaded.then(() => {
+      if (!cancelled && isOnline) sync();
+    });
+    const interval = isOnline && hasPending ? setInterval(sync, RETRY_INTERVAL) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isOnline, hasPending, onReport]);
+
+  return { isOnline, pendingIds };
+}
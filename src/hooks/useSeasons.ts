@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { fetchSeasons, getSeasonEntry, subscribe } from '../lib/seasons';
+
+// Reads a show's seasons from the season store, fetching them on first use.
+// The store is shared, so several views of the same show fetch only once.
+export function useSeasons(showId: string) {
+  const entry = useSyncExternalStore(subscribe, () => getSeasonEntry(showId));
+
+  useEffect(() => {
+    if (getSeasonEntry(showId)) return;
+    fetchSeasons(showId).catch(error => console.error('Failed to fetch seasons:', error));
+  }, [showId]);
+
+  const retry = useCallback(() => {
+    fetchSeasons(showId).catch(error => console.error('Failed to fetch seasons:', error));
+  }, [showId]);
+
+  return {
+    seasons: entry?.seasons ?? [],
+    isLoading: entry?.isLoading ?? true,
+    error: entry?.error,
+    retry,
+  };
+}
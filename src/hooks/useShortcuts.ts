@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { hasModifier, isTypingTarget } from '../lib/shortcuts';
+
+// Page-wide single-key shortcuts by `KeyboardEvent.key`. Keys are ignored
+// while typing and inside dialogs, which handle their own keys.
+export function useShortcuts(handlers: Partial<Record<string, () => void>>) {
+  // The latest handlers, so the listener isn't re-added on every render
+  const latest = useRef(handlers);
+  useEffect(() => {
+    latest.current = handlers;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || hasModifier(e) || isTypingTarget(e.target)) return;
+      if (e.target instanceof Element && e.target.closest('[role="dialog"]')) return;
+      const handler = latest.current[e.key];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
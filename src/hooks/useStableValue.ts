@@ -0,0 +1,11 @@
+import { useRef } from 'react';
+
+// Keeps the previous reference while the value is structurally unchanged, so
+// objects rebuilt from the URL on every render don't retrigger effects.
+export function useStableValue<T>(value: T): T {
+  const ref = useRef(value);
+  if (JSON.stringify(ref.current) !== JSON.stringify(value)) {
+    ref.current = value;
+  }
+  return ref.current;
+}
@@ -0,0 +1,15 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { fetchStats, getStatsEntry, subscribe } from '../lib/stats';
+
+// Reads the dashboard aggregates, refreshing them each time a view mounts
+export function useStats() {
+  const entry = useSyncExternalStore(subscribe, getStatsEntry);
+
+  const refresh = useCallback(() => {
+    fetchStats().catch(error => console.error('Failed to fetch stats:', error));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  return { ...entry, refresh };
+}
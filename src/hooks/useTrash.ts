@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { fetchTrash, getTrashEntry, subscribe } from '../lib/trash';
+
+// Reads the trash, refetching it from the start each time a view mounts
+export function useTrash() {
+  const entry = useSyncExternalStore(subscribe, getTrashEntry);
+
+  useEffect(() => {
+    fetchTrash(true).catch(error => console.error('Failed to fetch trash:', error));
+  }, []);
+
+  const loadMore = useCallback(() => {
+    fetchTrash(false).catch(error => console.error('Failed to fetch trash:', error));
+  }, []);
+
+  // Retries the first page when nothing is loaded, otherwise the next one
+  const retry = useCallback(() => {
+    fetchTrash(getTrashEntry().items.length === 0).catch(error => console.error('Failed to fetch trash:', error));
+  }, []);
+
+  return { ...entry, loadMore, retry };
+}
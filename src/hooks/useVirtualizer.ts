@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  // Offset from the top of the list, in pixels
+  start: number;
+  size: number;
+}
+
+interface VirtualizerOptions {
+  count: number;
+  // Must be stable between renders for the same data
+  getKey: (index: number) => string;
+  // Height assumed for rows that haven't been rendered yet
+  estimateSize: number;
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number;
+  // Kept rendered while off screen, e.g. the row holding focus
+  pinnedIndex?: number;
+  // An element scrolling the list itself; the window is used when omitted
+  scrollElement?: HTMLElement | null;
+  // The container is right above the rows (e.g. a table's header) rather
+  // than around them, so the first row starts at its bottom edge
+  startsBelow?: boolean;
+}
+
+// Index of the row covering `offset`, by binary search over the row offsets
+function rowAt(offsets: Float64Array, count: number, offset: number) {
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+// Renders only the rows of a scrolled list that are near the viewport.
+// Rows are measured once rendered (and again whenever they resize, e.g. when
+// expanded); measurements are kept per key so they survive re-sorting.
+export function useVirtualizer({
+  count,
+  getKey,
+  estimateSize,
+  overscan = 6,
+  pinnedIndex,
+  scrollElement,
+  startsBelow = false,
+}: VirtualizerOptions) {
+  // The element whose top (or bottom, with `startsBelow`) edge is the top of the first row
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  // offsets[i] is the top of row i; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let index = 0; index < count; index++) {
+      result[index + 1] = result[index] + (sizes.get(getKey(index)) ?? estimateSize);
+    }
+    return result;
+  }, [count, getKey, estimateSize, sizes]);
+
+  const [observer] = useState(() => new ResizeObserver(entries => {
+    const measured = new Map<string, number>();
+    entries.forEach(({ target }) => {
+      const element = target as HTMLElement;
+      // Rows removed from the page report a zero size; stop watching them
+      if (!element.isConnected) {
+        observer.unobserve(element);
+        return;
+      }
+      const key = element.dataset.key;
+      const size = element.getBoundingClientRect().height;
+      if (key !== undefined && size > 0) measured.set(key, size);
+    });
+    if (measured.size === 0) return;
+    setSizes(prev => {
+      const changed = [...measured].filter(([key, size]) => prev.get(key) !== size);
+      return changed.length > 0 ? new Map([...prev, ...changed]) : prev;
+    });
+  }));
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  // Ref callback for each rendered row; the element needs a `data-key`
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) observer.observe(element);
+  }, [observer]);
+
+  useLayoutEffect(() => {
+    const update = () => {
+      if (!container || count === 0) {
+        setRange(prev => (prev.end === 0 ? prev : { start: 0, end: 0 }));
+        return;
+      }
+      const viewportTop = scrollElement ? scrollElement.getBoundingClientRect().top : 0;
+      const viewportHeight = scrollElement ? scrollElement.clientHeight : window.innerHeight;
+      const bounds = container.getBoundingClientRect();
+      const top = viewportTop - (startsBelow ? bounds.bottom : bounds.top);
+      const start = Math.max(0, rowAt(offsets, count, top) - overscan);
+      const end = Math.min(count, rowAt(offsets, count, top + viewportHeight) + 1 + overscan);
+      setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+
+    // Scroll events can fire several times a frame; one update per frame is enough
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          update();
+        });
+      }
+    };
+
+    // The page can still scroll around a scrolling element, so both are watched
+    update();
+    scrollElement?.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      scrollElement?.removeEventListener('scroll', schedule);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [container, scrollElement, startsBelow, offsets, count, overscan]);
+
+  const virtualItems = useMemo(() => {
+    const end = Math.min(range.end, count);
+    const indices: number[] = [];
+    for (let index = range.start; index < end; index++) indices.push(index);
+    if (pinnedIndex !== undefined && pinnedIndex >= 0 && pinnedIndex < count && (pinnedIndex < range.start || pinnedIndex >= end)) {
+      indices.push(pinnedIndex);
+      indices.sort((a, b) => a - b);
+    }
+    return indices.map((index): VirtualItem => ({
+      index,
+      key: getKey(index),
+      start: offsets[index],
+      size: offsets[index + 1] - offsets[index],
+    }));
+  }, [range, count, pinnedIndex, getKey, offsets]);
+
+  return { setContainer, measureElement, virtualItems, totalSize: offsets[count] };
+}
@@ -1,11 +1,11 @@
 import axios from 'axios';
-import type { Movie, TVShow } from '../types';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { toApiError } from './errors';
+import { expireSession, getSession, setSession } from './auth';
+import type { Movie, TVShow, ItemVersion, MediaStats, Season, Episode, SeasonFormData, EpisodeFormData, SortState, MediaFilters, AuthSession, LoginCredentials, BulkEditChanges, BulkItemResult, UserPreferences, FieldChanges } from '../types';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:5000/api';
 
-console.log('Current environment:', import.meta.env.MODE);
-console.log('Using backend URL:', BACKEND_URL);
-
 const api = axios.create({
   baseURL: BACKEND_URL,
   headers: {
@@ -13,27 +13,62 @@ const api = axios.create({
   },
 });
 
-// Add response interceptor for error handling
+// Attach the access token of the signed-in session, if any
+api.interceptors.request.use((config) => {
+  const accessToken = getSession()?.accessToken;
+  if (accessToken) {
+    config.headers.Authorization = `Bearer ${accessToken}`;
+  }
+  return config;
+});
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+let refreshRequest: Promise<string> | null = null;
+
+// Exchanges the refresh token for a new token pair. Concurrent 401s share one
+// refresh call, and it bypasses `api` so its own failure can't recurse here.
+function refreshAccessToken(): Promise<string> {
+  if (!refreshRequest) {
+    const session = getSession();
+    if (!session) {
+      return Promise.reject(new Error('No session to refresh'));
+    }
+    refreshRequest = axios
+      .post<AuthSession>(`${BACKEND_URL}/auth/refresh`, { refreshToken: session.refreshToken })
+      .then(({ data }) => {
+        setSession({ ...session, ...data });
+        return data.accessToken;
+      })
+      .finally(() => {
+        refreshRequest = null;
+      });
+  }
+  return refreshRequest;
+}
+
+const isAuthRequest = (config: InternalAxiosRequestConfig) => config.url?.startsWith('/auth/') ?? false;
+
+// Failures reach callers as typed ApiErrors, which the UI reports itself
 api.interceptors.response.use(
-  (response) => {
-    console.log('API Response:', response.data);
-    return response;
-  },
-  (error) => {
-    if (error.response) {
-      // Server responded with error
-      console.error('API Error:', error.response.data);
-      console.error('Error Status:', error.response.status);
-      console.error('Error Headers:', error.response.headers);
-    } else if (error.request) {
-      // Request made but no response
-      console.error('Network Error:', error.request);
-      console.error('Request Config:', error.config);
-    } else {
-      // Something else happened
-      console.error('Error:', error.message);
+  (response) => response,
+  async (error) => {
+    const original = error.config as RetriableConfig | undefined;
+    if (error.response?.status === 401 && original && !isAuthRequest(original) && getSession()) {
+      if (!original._retried) {
+        // Access token expired: rotate the tokens once and replay the request
+        original._retried = true;
+        try {
+          const accessToken = await refreshAccessToken();
+          original.headers.Authorization = `Bearer ${accessToken}`;
+          return api(original);
+        } catch (refreshError) {
+          console.error('Token refresh failed:', refreshError);
+        }
+      }
+      expireSession();
     }
-    return Promise.reject(error);
+    return Promise.reject(toApiError(error));
   }
 );
 
@@ -47,22 +82,146 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface BulkResponse<T> {
+  results: BulkItemResult<T>[];
+}
+
+export interface ListQuery {
+  sort?: SortState | null;
+  filters?: MediaFilters;
+}
+
+type ListParams = Record<string, string | number>;
+
+// Movies filter on a single release year; TV shows match when their run
+// (startYear..endYear, open-ended while still airing) overlaps the range.
+const yearParams = {
+  movie: (filters: MediaFilters) => ({ minYear: filters.minYear, maxYear: filters.maxYear }),
+  tvshow: (filters: MediaFilters) => ({ minEndYear: filters.minYear, maxStartYear: filters.maxYear }),
+};
+
+function toListParams(page: number, limit: number, query: ListQuery, type: keyof typeof yearParams) {
+  const { sort, filters = {} } = query;
+  const candidates = {
+    page,
+    limit,
+    sort: sort?.field,
+    order: sort?.order,
+    search: filters.search?.trim(),
+    location: filters.location?.trim(),
+    minBudget: filters.minBudget,
+    maxBudget: filters.maxBudget,
+    minDuration: filters.minDuration,
+    maxDuration: filters.maxDuration,
+    ...yearParams[type](filters),
+  };
+
+  const params: ListParams = {};
+  Object.entries(candidates).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params[key] = value;
+    }
+  });
+  return params;
+}
+
+// Optimistic concurrency: an update names the `updatedAt` it was based on, and
+// the server answers 409 (with its `current` copy) if the item has moved on
+const ifMatch = (version?: string) => (version ? { headers: { 'If-Match': `"${version}"` } } : undefined);
+
 export const movieApi = {
   create: (data: Omit<Movie, 'id' | 'createdAt' | 'updatedAt'>) => 
     api.post<Movie>('/movies', { ...data, type: 'movie' }),
-  getAll: (page: number, limit: number) => 
-    api.get<PaginatedResponse<Movie>>(`/movies?page=${page}&limit=${limit}`),
-  update: (id: string, data: Partial<Movie>) => 
-    api.put<Movie>(`/movies/${id}`, { ...data, type: 'movie' }),
+  getAll: (page: number, limit: number, query: ListQuery = {}) => 
+    api.get<PaginatedResponse<Movie>>('/movies', { params: toListParams(page, limit, query, 'movie') }),
+  getById: (id: string) => api.get<Movie>(`/movies/${id}`),
+  // Newest version first
+  getHistory: (id: string) => api.get<ItemVersion[]>(`/movies/${id}/history`),
+  update: (id: string, data: Omit<Movie, 'id' | 'createdAt' | 'updatedAt'>, version?: string) => 
+    api.put<Movie>(`/movies/${id}`, { ...data, type: 'movie' }, ifMatch(version)),
+  // Changes only the given fields (e.g. one table cell)
+  patch: (id: string, data: FieldChanges<Movie>, version?: string) =>
+    api.patch<Movie>(`/movies/${id}`, { ...data, type: 'movie' }, ifMatch(version)),
+  // Moves the item to the trash; `purge` removes it for good
   delete: (id: string) => api.delete(`/movies/${id}`),
+  getTrash: (page: number, limit: number) =>
+    api.get<PaginatedResponse<Movie>>('/movies/trash', { params: { page, limit } }),
+  restore: (id: string) => api.post<Movie>(`/movies/${id}/restore`),
+  purge: (id: string) => api.delete(`/movies/${id}/purge`),
+  bulkUpdate: (ids: string[], changes: BulkEditChanges) =>
+    api.patch<BulkResponse<Movie>>('/movies/bulk', { ids, changes }),
+  bulkDelete: (ids: string[]) => api.post<BulkResponse<Movie>>('/movies/bulk-delete', { ids }),
 };
 
 export const tvShowApi = {
   create: (data: Omit<TVShow, 'id' | 'createdAt' | 'updatedAt'>) => 
     api.post<TVShow>('/tvshows', { ...data, type: 'tvshow' }),
-  getAll: (page: number, limit: number) => 
-    api.get<PaginatedResponse<TVShow>>(`/tvshows?page=${page}&limit=${limit}`),
-  update: (id: string, data: Partial<TVShow>) => 
-    api.put<TVShow>(`/tvshows/${id}`, { ...data, type: 'tvshow' }),
+  getAll: (page: number, limit: number, query: ListQuery = {}) => 
+    api.get<PaginatedResponse<TVShow>>('/tvshows', { params: toListParams(page, limit, query, 'tvshow') }),
+  getById: (id: string) => api.get<TVShow>(`/tvshows/${id}`),
+  getHistory: (id: string) => api.get<ItemVersion[]>(`/tvshows/${id}/history`),
+  update: (id: string, data: Omit<TVShow, 'id' | 'createdAt' | 'updatedAt'>, version?: string) => 
+    api.put<TVShow>(`/tvshows/${id}`, { ...data, type: 'tvshow' }, ifMatch(version)),
+  patch: (id: string, data: FieldChanges<TVShow>, version?: string) =>
+    api.patch<TVShow>(`/tvshows/${id}`, { ...data, type: 'tvshow' }, ifMatch(version)),
   delete: (id: string) => api.delete(`/tvshows/${id}`),
-}; 
\ No newline at end of file
+  getTrash: (page: number, limit: number) =>
+    api.get<PaginatedResponse<TVShow>>('/tvshows/trash', { params: { page, limit } }),
+  restore: (id: string) => api.post<TVShow>(`/tvshows/${id}/restore`),
+  purge: (id: string) => api.delete(`/tvshows/${id}/purge`),
+  bulkUpdate: (ids: string[], changes: BulkEditChanges) =>
+    api.patch<BulkResponse<TVShow>>('/tvshows/bulk', { ids, changes }),
+  bulkDelete: (ids: string[]) => api.post<BulkResponse<TVShow>>('/tvshows/bulk-delete', { ids }),
+};
+
+// Seasons are returned with their episodes; both are only reachable through their show
+export const seasonApi = {
+  getAll: (showId: string) => api.get<Season[]>(`/tvshows/${showId}/seasons`),
+  create: (showId: string, data: SeasonFormData) =>
+    api.post<Season>(`/tvshows/${showId}/seasons`, data),
+  update: (showId: string, seasonId: string, data: SeasonFormData) =>
+    api.put<Season>(`/tvshows/${showId}/seasons/${seasonId}`, data),
+  delete: (showId: string, seasonId: string) => api.delete(`/tvshows/${showId}/seasons/${seasonId}`),
+};
+
+export const episodeApi = {
+  create: (showId: string, seasonId: string, data: EpisodeFormData) =>
+    api.post<Episode>(`/tvshows/${showId}/seasons/${seasonId}/episodes`, data),
+  update: (showId: string, seasonId: string, episodeId: string, data: EpisodeFormData) =>
+    api.put<Episode>(`/tvshows/${showId}/seasons/${seasonId}/episodes/${episodeId}`, data),
+  delete: (showId: string, seasonId: string, episodeId: string) =>
+    api.delete(`/tvshows/${showId}/seasons/${seasonId}/episodes/${episodeId}`),
+};
+
+export interface UploadResponse {
+  url: string;
+}
+
+export const uploadApi = {
+  // `onProgress` receives the uploaded fraction (0..1) when the browser reports it
+  poster: (image: Blob, filename: string, onProgress?: (fraction: number) => void) => {
+    const body = new FormData();
+    body.append('file', image, filename);
+    return api.post<UploadResponse>('/uploads/posters', body, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (event.total) onProgress?.(event.loaded / event.total);
+      },
+    });
+  },
+};
+
+export const statsApi = {
+  get: () => api.get<MediaStats>('/stats'),
+};
+
+// Settings saved for the signed-in user, such as table column layouts
+export const preferencesApi = {
+  get: () => api.get<UserPreferences>('/users/me/preferences'),
+  update: (preferences: UserPreferences) => api.patch<UserPreferences>('/users/me/preferences', preferences),
+};
+
+export const authApi = {
+  login: (credentials: LoginCredentials) => api.post<AuthSession>('/auth/login', credentials),
+  logout: (refreshToken: string) => api.post('/auth/logout', { refreshToken }),
+};
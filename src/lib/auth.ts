@@ -0,0 +1,47 @@
+import { loadJSON, removeItem, saveJSON } from './storage';
+import type { AuthSession } from '../types';
+
+// The signed-in session (user + token pair), persisted across reloads. The API
+// client reads tokens from here and rotates them on refresh; React reads it
+// through useAuth.
+
+const SESSION_STORAGE_KEY = 'media-manager:session';
+
+let session = loadJSON<AuthSession | null>(SESSION_STORAGE_KEY, null);
+const listeners = new Set<() => void>();
+const expiryListeners = new Set<() => void>();
+
+export function getSession() {
+  return session;
+}
+
+export function setSession(next: AuthSession | null) {
+  session = next;
+  if (next) {
+    saveJSON(SESSION_STORAGE_KEY, next);
+  } else {
+    removeItem(SESSION_STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Called by the API client when the server rejects the session and it can't be refreshed
+export function expireSession() {
+  if (!session) return;
+  setSession(null);
+  expiryListeners.forEach(listener => listener());
+}
+
+export function subscribeSession(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function subscribeSessionExpired(listener: () => void) {
+  expiryListeners.add(listener);
+  return () => {
+    expiryListeners.delete(listener);
+  };
+}
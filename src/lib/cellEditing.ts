@@ -0,0 +1,35 @@
+import { snapshotFormData } from './history';
+import { mediaForms } from './mediaForms';
+import type { FormFieldDescriptor } from './mediaForms';
+import type { MediaItem } from '../types';
+
+// Editing single table cells with the rules of the item's form
+
+const formFor = (item: MediaItem) => mediaForms[item.type === 'movie' ? 'movies' : 'tvshows'];
+
+// The form field a column edits for this item. Columns that aren't a field of
+// the item's own form (e.g. "Type") and posters aren't edited inline.
+export function editableField(item: MediaItem, accessor: string): FormFieldDescriptor | undefined {
+  const field = formFor(item).fields.find(candidate => candidate.name === accessor);
+  return field && field.input !== 'image' ? field : undefined;
+}
+
+export const cellText = (item: MediaItem, field: FormFieldDescriptor) =>
+  String(item[field.name as keyof MediaItem] ?? '');
+
+// Reads an input's text. Number cells that are empty or not a number ("7abc")
+// read as NaN, which validateCell rejects, rather than being saved as 0 or 7.
+export function parseCellValue(field: FormFieldDescriptor, text: string): unknown {
+  if (text.trim() === '' && field.optional) return undefined;
+  if (field.input !== 'number') return text;
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+// Checks the new value against the whole item, so cross-field rules (an end
+// year before the start year) still apply. Returns the field's first error.
+export function validateCell(item: MediaItem, field: FormFieldDescriptor, value: unknown): string | null {
+  if (Number.isNaN(value)) return `${field.label} must be a number`;
+  const result = formFor(item).schema.safeParse({ ...snapshotFormData(item), [field.name]: value });
+  if (result.success) return null;
+  return result.error.issues.find(issue => issue.path[0] === field.name)?.message ?? null;
+}
@@ -0,0 +1,102 @@
+import { preferencesApi } from './api';
+import { getSession } from './auth';
+import { columnsForTab } from './columns';
+import { loadJSON, saveJSON } from './storage';
+import type { Column, ColumnLayout, ListTab } from '../types';
+
+// Which columns each tab shows, in what order and how wide. Layouts are kept
+// in localStorage and, for signed-in users, saved to their preferences too.
+
+type ColumnLayouts = Partial<Record<ListTab, ColumnLayout>>;
+
+const STORAGE_KEY = 'media-manager:columns';
+
+export const TITLE_ACCESSOR = 'title';
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 640;
+
+// Server saves wait for changes to settle, as a drag or a run of arrow-key
+// resizes makes many, and go out one at a time with the latest layouts
+const SERVER_SAVE_DELAY = 1000;
+
+let layouts: ColumnLayouts = loadJSON(STORAGE_KEY, {});
+const listeners = new Set<() => void>();
+let saveTimer: number | undefined;
+let serverSave: Promise<unknown> = Promise.resolve();
+
+function scheduleServerSave() {
+  window.clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(() => {
+    serverSave = serverSave
+      .then(() => (getSession() ? preferencesApi.update({ columnLayouts: layouts }) : undefined))
+      .catch(error => console.error('Failed to save column layouts:', error));
+  }, SERVER_SAVE_DELAY);
+}
+
+function setLayouts(next: ColumnLayouts, saveToServer = true) {
+  layouts = next;
+  listeners.forEach(listener => listener());
+  saveJSON(STORAGE_KEY, layouts);
+  if (saveToServer && getSession()) scheduleServerSave();
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const getLayouts = (): ColumnLayouts => layouts;
+
+export const clampWidth = (width: number) => Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)));
+
+export function defaultLayout(tab: ListTab): ColumnLayout {
+  return { order: columnsForTab(tab).map(column => column.accessor), hidden: [], widths: {}, pinTitle: false };
+}
+
+// Matches a saved layout against the tab's current columns: columns that no
+// longer exist are dropped and ones added since are appended
+export function resolveLayout(tab: ListTab, saved?: ColumnLayout): ColumnLayout {
+  const fallback = defaultLayout(tab);
+  if (!saved) return fallback;
+  const known = new Set(fallback.order);
+  const order = (saved.order ?? []).filter(accessor => known.has(accessor));
+  return {
+    order: [...order, ...fallback.order.filter(accessor => !order.includes(accessor))],
+    hidden: (saved.hidden ?? []).filter(accessor => known.has(accessor)),
+    widths: saved.widths ?? {},
+    pinTitle: saved.pinTitle ?? false,
+  };
+}
+
+// The columns to render, in layout order; a pinned title always comes first
+export function applyLayout(columns: Column[], layout: ColumnLayout): Column[] {
+  const hidden = new Set(layout.hidden);
+  if (layout.pinTitle) hidden.delete(TITLE_ACCESSOR);
+  const ordered = layout.order
+    .map(accessor => columns.find(column => column.accessor === accessor))
+    .filter((column): column is Column => column !== undefined && !hidden.has(column.accessor));
+  if (!layout.pinTitle) return ordered;
+  return [
+    ...ordered.filter(column => column.accessor === TITLE_ACCESSOR),
+    ...ordered.filter(column => column.accessor !== TITLE_ACCESSOR),
+  ];
+}
+
+export function saveLayout(tab: ListTab, layout: ColumnLayout) {
+  setLayouts({ ...layouts, [tab]: layout });
+}
+
+export function resetLayout(tab: ListTab) {
+  const next = { ...layouts };
+  delete next[tab];
+  setLayouts(next);
+}
+
+// Replaces the local layouts with the ones saved for the signed-in user, if
+// the server has any
+export async function loadServerLayouts() {
+  const { data } = await preferencesApi.get();
+  if (data.columnLayouts) setLayouts(data.columnLayouts, false);
+}
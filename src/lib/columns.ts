@@ -0,0 +1,92 @@
+import type { Column, ColumnValue, ListTab, MediaItem } from '../types';
+
+// Column definitions shared by the table and exports
+
+export const movieColumns: Column[] = [
+  { header: 'Title', accessor: 'title', sortable: true },
+  { header: 'Director', accessor: 'director', sortable: true },
+  {
+    header: 'Budget',
+    accessor: 'budget',
+    sortable: true,
+    render: (value: ColumnValue) => value ? `$${Number(value).toLocaleString()}M` : '-'
+  },
+  { header: 'Location', accessor: 'location' },
+  {
+    header: 'Duration',
+    accessor: 'duration',
+    sortable: true,
+    render: (value: ColumnValue) => value ? `${value} min` : '-'
+  },
+  {
+    header: 'Year/Time',
+    accessor: 'year' as keyof MediaItem,
+    sortable: true,
+    render: (value: ColumnValue) => value ? value.toString() : '-'
+  }
+];
+
+export const tvShowColumns: Column[] = [
+  { header: 'Title', accessor: 'title', sortable: true },
+  { header: 'Director', accessor: 'director', sortable: true },
+  {
+    header: 'Budget',
+    accessor: 'budget',
+    sortable: true,
+    render: (value: ColumnValue) => value ? `$${Number(value).toLocaleString()}M/ep` : '-'
+  },
+  { header: 'Location', accessor: 'location' },
+  {
+    header: 'Duration',
+    accessor: 'duration',
+    sortable: true,
+    render: (value: ColumnValue) => value ? `${value} min/ep` : '-'
+  },
+  {
+    header: 'Year/Time',
+    accessor: 'startYear' as keyof MediaItem,
+    sortable: true,
+    render: (value: ColumnValue, item: MediaItem) => {
+      if ('endYear' in item && item.endYear) {
+        return `${value}-${item.endYear}`;
+      }
+      return value ? value.toString() : '-';
+    }
+  }
+];
+
+export function formatCell(column: Column, item: MediaItem): string {
+  const value = item[column.accessor];
+  if (column.render) {
+    return column.render(value as ColumnValue, item);
+  }
+  return String(value ?? '');
+}
+
+// In the merged list each cell is formatted by the same-named column of the
+// item's own type, e.g. "Year/Time" is a year for movies and a range for shows
+const asOwnType = (header: string) => (_value: ColumnValue, item: MediaItem) => {
+  const own = (item.type === 'movie' ? movieColumns : tvShowColumns).find(column => column.header === header);
+  return own ? formatCell(own, item) : '-';
+};
+
+export const allColumns: Column[] = [
+  { header: 'Title', accessor: 'title', sortable: true },
+  {
+    header: 'Type',
+    accessor: 'type',
+    badge: true,
+    render: (_value: ColumnValue, item: MediaItem) => item.type === 'movie' ? 'Movie' : 'TV Show'
+  },
+  { header: 'Director', accessor: 'director', sortable: true },
+  { header: 'Budget', accessor: 'budget', sortable: true, render: asOwnType('Budget') },
+  { header: 'Location', accessor: 'location' },
+  { header: 'Duration', accessor: 'duration', sortable: true, render: asOwnType('Duration') },
+  // Sorting on "year" orders movies by year and shows by start year
+  { header: 'Year/Time', accessor: 'year' as keyof MediaItem, sortable: true, render: asOwnType('Year/Time') }
+];
+
+export const columnsForTab = (tab: ListTab): Column[] => {
+  if (tab === 'all') return allColumns;
+  return tab === 'movies' ? movieColumns : tvShowColumns;
+};
@@ -0,0 +1,57 @@
+import { movieApi, tvShowApi } from './api';
+import { ApiError } from './errors';
+import { diffSnapshots, snapshotFormData } from './history';
+import type { MediaFormData, MediaItem } from '../types';
+
+// Updates carry the `updatedAt` they were based on. When someone else saved
+// in between, the server answers 409 with its current copy as `current`; the
+// user then picks, per field, between their values and the saved ones.
+
+export interface FieldConflict {
+  name: string;
+  label: string;
+  mine: string;
+  theirs: string;
+  // Whether the user edited this field, as opposed to only the other person
+  changedByYou: boolean;
+}
+
+export function conflictingCopy(error: unknown): MediaItem | undefined {
+  if (!(error instanceof ApiError) || error.kind !== 'conflict') return undefined;
+  return (error.data as { current?: MediaItem } | undefined)?.current;
+}
+
+// Makes sure a 409 carries the server's copy, fetching it if the response
+// didn't include one. Any other error is returned unchanged.
+export async function withConflictingCopy(original: MediaItem, error: unknown): Promise<unknown> {
+  if (!(error instanceof ApiError) || error.kind !== 'conflict' || conflictingCopy(error)) return error;
+  try {
+    const response = original.type === 'movie'
+      ? await movieApi.getById(original.id)
+      : await tvShowApi.getById(original.id);
+    return new ApiError('conflict', error.message, { status: error.status, data: { current: response.data } });
+  } catch {
+    return error;
+  }
+}
+
+// Fields where the user's values differ from the saved copy
+export function fieldConflicts(base: MediaItem, mine: MediaFormData, theirs: MediaItem): FieldConflict[] {
+  const edited = new Set(diffSnapshots(base, { ...base, ...mine } as MediaItem).map(change => change.name));
+  return diffSnapshots(theirs, { ...theirs, ...mine } as MediaItem).map(change => ({
+    name: change.name,
+    label: change.label,
+    theirs: change.from,
+    mine: change.to,
+    changedByYou: edited.has(change.name),
+  }));
+}
+
+// The saved copy with the chosen fields taken from the user's values
+export function mergeValues(theirs: MediaItem, mine: MediaFormData, keepMine: Set<string>): MediaFormData {
+  const merged = snapshotFormData(theirs) as unknown as Record<string, unknown>;
+  keepMine.forEach(name => {
+    merged[name] = (mine as unknown as Record<string, unknown>)[name];
+  });
+  return merged as unknown as MediaFormData;
+}
@@ -0,0 +1,61 @@
+// RFC 4180 style CSV: comma separated, fields optionally wrapped in double
+// quotes, "" for a literal quote, and quoted fields may span lines.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines (a lone empty field)
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+// Spreadsheets run text cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  // A leading quote keeps such text literal; numbers (e.g. -5) are left alone
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+}
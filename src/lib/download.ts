@@ -0,0 +1,15 @@
+// Firefox and Safari start the download after click() returns, so the URL
+// has to outlive it for a while
+const REVOKE_DELAY = 1000;
+
+// Saves generated content as a file through a temporary object URL
+export function downloadFile(filename: string, content: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
@@ -0,0 +1,104 @@
+import axios from 'axios';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+export type FieldErrors = Record<string, string[]>;
+
+// Normalised error produced by the API client for every failed request, so
+// callers can branch on `kind` instead of digging through axios internals.
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  fieldErrors: FieldErrors;
+  data?: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; fieldErrors?: FieldErrors; data?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.data = options.data;
+  }
+}
+
+interface ErrorBody {
+  message?: string;
+  error?: string;
+  errors?: Record<string, string | string[]> | { path?: string | (string | number)[]; field?: string; message: string }[];
+}
+
+// The backend reports field problems either as { field: message(s) } or as a
+// list of { path | field, message } issues (zod style); accept both.
+function parseFieldErrors(body: ErrorBody | undefined): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  const errors = body?.errors;
+  if (!errors) return fieldErrors;
+
+  if (Array.isArray(errors)) {
+    errors.forEach(issue => {
+      const path = Array.isArray(issue.path) ? issue.path[0] : issue.path ?? issue.field;
+      if (path === undefined) return;
+      const key = String(path);
+      fieldErrors[key] = [...(fieldErrors[key] ?? []), issue.message];
+    });
+  } else {
+    Object.entries(errors).forEach(([field, messages]) => {
+      fieldErrors[field] = Array.isArray(messages) ? messages : [messages];
+    });
+  }
+  return fieldErrors;
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Check your connection and try again.',
+  validation: 'Some fields are invalid. Please review the form.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: 'You do not have permission to do that.',
+  not_found: 'The requested item could not be found.',
+  conflict: 'This item was changed by someone else.',
+  server: 'The server encountered an error. Please try again later.',
+  unknown: 'Something went wrong.',
+};
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError('network', DEFAULT_MESSAGES.network);
+    }
+    const { status, data } = error.response;
+    const body = (typeof data === 'object' && data !== null ? data : undefined) as ErrorBody | undefined;
+    const kind = kindForStatus(status);
+    return new ApiError(kind, body?.message ?? body?.error ?? DEFAULT_MESSAGES[kind], {
+      status,
+      fieldErrors: parseFieldErrors(body),
+      data,
+    });
+  }
+
+  return new ApiError('unknown', error instanceof Error ? error.message : DEFAULT_MESSAGES.unknown);
+}
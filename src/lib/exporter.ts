@@ -0,0 +1,141 @@
+import { movieApi, tvShowApi } from './api';
+import type { ListQuery } from './api';
+import { formatCell } from './columns';
+import { compareItems, streamQuery } from './mergedList';
+import { toCSV } from './csv';
+import type { CsvValue } from './csv';
+import type { Column, ListTab, MediaItem, MediaTab } from '../types';
+
+export type ExportFormat = 'csv' | 'json' | 'excel';
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// Larger than the table's page size: exports want few round trips
+const EXPORT_PAGE_SIZE = 100;
+
+const SHEET_NAMES: Record<ListTab, string> = {
+  movies: 'Movies',
+  tvshows: 'TV Shows',
+  all: 'All Titles',
+};
+
+async function fetchTab(
+  tab: MediaTab,
+  query: ListQuery,
+  items: MediaItem[],
+  onProgress?: (count: number) => void
+) {
+  const api = tab === 'movies' ? movieApi : tvShowApi;
+  for (let page = 1; ; page++) {
+    const response = await api.getAll(page, EXPORT_PAGE_SIZE, query);
+    items.push(...response.data.data);
+    onProgress?.(items.length);
+    if (!response.data.meta.hasMore || response.data.data.length === 0) {
+      return;
+    }
+  }
+}
+
+// Pages through `getAll` with the list's sort and filters until the server
+// reports no more rows. `onProgress` receives the running item count.
+export async function fetchAllItems(
+  tab: ListTab,
+  query: ListQuery,
+  onProgress?: (count: number) => void
+): Promise<MediaItem[]> {
+  const items: MediaItem[] = [];
+  if (tab !== 'all') {
+    await fetchTab(tab, query, items, onProgress);
+    return items;
+  }
+  // Both collections are fetched in full, then ordered like the merged table
+  await fetchTab('movies', streamQuery('movies', query), items, onProgress);
+  await fetchTab('tvshows', streamQuery('tvshows', query), items, onProgress);
+  return items.sort(compareItems(query.sort));
+}
+
+// "Year/Time" is a year for movies but a start and end year for TV shows, so
+// raw exports give each part its own field
+const YEAR_FIELDS: Record<ListTab, string[]> = {
+  movies: ['year'],
+  tvshows: ['startYear', 'endYear'],
+  all: ['year', 'startYear', 'endYear'],
+};
+
+const rawFields = (column: Column, tab: ListTab): string[] =>
+  column.header === 'Year/Time' ? YEAR_FIELDS[tab] : [column.accessor];
+
+// Raw values keep numbers as numbers. Fields of the other type (a movie's
+// `startYear` on the All tab) are blank.
+function rawValue(item: MediaItem, field: string): CsvValue {
+  const fields: Record<string, CsvValue> = { ...item };
+  return fields[field];
+}
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SpreadsheetML 2003: plain XML that Excel opens as a worksheet, keeping
+// numeric cells numeric without a spreadsheet library
+function toSpreadsheetML(header: string[], rows: CsvValue[][], sheetName: string): string {
+  const cell = (value: CsvValue) => {
+    if (value === null || value === undefined || value === '') return '<Cell/>';
+    const type = typeof value === 'number' ? 'Number' : 'String';
+    return `<Cell><Data ss:Type="${type}">${escapeXML(String(value))}</Data></Cell>`;
+  };
+  const row = (values: CsvValue[]) => `<Row>${values.map(cell).join('')}</Row>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet"',
+    ' xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    `<Worksheet ss:Name="${escapeXML(sheetName)}"><Table>`,
+    row(header),
+    ...rows.map(row),
+    '</Table></Worksheet></Workbook>',
+  ].join('\n');
+}
+
+export function buildExport(
+  tab: ListTab,
+  items: MediaItem[],
+  columns: Column[],
+  format: ExportFormat,
+  raw: boolean
+): ExportFile {
+  const sheetName = SHEET_NAMES[tab];
+  const baseName = `${tab}-${new Date().toISOString().slice(0, 10)}`;
+  // Raw exports are headed by field name rather than column label;
+  // formatted values match the table
+  const fields = columns.flatMap(column => rawFields(column, tab));
+  const header = raw ? fields : columns.map(column => column.header);
+  const rows = items.map(item => (raw
+    ? fields.map(field => rawValue(item, field))
+    : columns.map(column => formatCell(column, item))));
+
+  if (format === 'json') {
+    const records = rows.map(values => Object.fromEntries(header.map((key, index) => [key, values[index] ?? null])));
+    return {
+      filename: `${baseName}.json`,
+      content: JSON.stringify(records, null, 2),
+      mimeType: 'application/json',
+    };
+  }
+  if (format === 'excel') {
+    return {
+      filename: `${baseName}.xls`,
+      content: toSpreadsheetML(header, rows, sheetName),
+      mimeType: 'application/vnd.ms-excel',
+    };
+  }
+  return {
+    filename: `${baseName}.csv`,
+    content: toCSV([header, ...rows]),
+    mimeType: 'text/csv;charset=utf-8',
+  };
+}
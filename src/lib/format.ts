@@ -0,0 +1,24 @@
+import type { TVShow } from '../types';
+
+export type ShowStatus = 'upcoming' | 'running' | 'ended';
+
+export const SHOW_STATUS_LABELS: Record<ShowStatus, string> = {
+  upcoming: 'Upcoming',
+  running: 'Running',
+  ended: 'Ended',
+};
+
+// A show without an end year, or one ending this year or later, is still running
+export function showStatus(show: Pick<TVShow, 'startYear' | 'endYear'>, year = new Date().getFullYear()): ShowStatus {
+  if (show.startYear > year) return 'upcoming';
+  if (show.endYear === undefined || show.endYear >= year) return 'running';
+  return 'ended';
+}
+
+export function formatTimestamp(value?: string): string {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
@@ -0,0 +1,89 @@
+import { movieApi, tvShowApi } from './api';
+import { toApiError } from './errors';
+import type { ApiError } from './errors';
+import { mediaForms } from './mediaForms';
+import type { ItemVersion, MediaFormData, MediaItem } from '../types';
+
+// Version history per item, newest first. Diffs are worked out here from
+// consecutive snapshots, over the fields the item's form edits.
+
+export interface HistoryEntry {
+  versions: ItemVersion[];
+  isLoading: boolean;
+  error?: ApiError;
+}
+
+export interface FieldChange {
+  name: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+const entries = new Map<string, HistoryEntry>();
+const listeners = new Set<() => void>();
+// Only the latest request per item may update its entry
+const latestRequest = new Map<string, number>();
+
+const formFor = (item: MediaItem) => mediaForms[item.type === 'movie' ? 'movies' : 'tvshows'];
+
+const display = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '-' : String(value);
+
+function setEntry(itemId: string, patch: Partial<HistoryEntry>) {
+  const current = entries.get(itemId) ?? { versions: [], isLoading: false };
+  entries.set(itemId, { ...current, ...patch });
+  listeners.forEach(listener => listener());
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getHistoryEntry(itemId: string): HistoryEntry | undefined {
+  return entries.get(itemId);
+}
+
+export async function fetchHistory(item: Pick<MediaItem, 'id' | 'type'>) {
+  const requestId = (latestRequest.get(item.id) ?? 0) + 1;
+  latestRequest.set(item.id, requestId);
+  setEntry(item.id, { isLoading: true, error: undefined });
+  try {
+    const response = item.type === 'movie'
+      ? await movieApi.getHistory(item.id)
+      : await tvShowApi.getHistory(item.id);
+    if (latestRequest.get(item.id) !== requestId) return;
+    setEntry(item.id, { versions: response.data, isLoading: false });
+  } catch (error) {
+    const apiError = toApiError(error);
+    if (latestRequest.get(item.id) !== requestId) return;
+    setEntry(item.id, { isLoading: false, error: apiError });
+    throw apiError;
+  }
+}
+
+// Fields that differ between two snapshots, labelled as in the form
+export function diffSnapshots(before: MediaItem, after: MediaItem): FieldChange[] {
+  const from: Record<string, unknown> = snapshotFormData(before);
+  const to: Record<string, unknown> = snapshotFormData(after);
+  return formFor(after).fields
+    .filter(field => display(from[field.name]) !== display(to[field.name]))
+    .map(field => ({
+      name: field.name,
+      label: field.label,
+      from: display(from[field.name]),
+      to: display(to[field.name]),
+    }));
+}
+
+// The editable part of a snapshot, ready to send back through `update`
+export function snapshotFormData(snapshot: MediaItem): MediaFormData {
+  const { title, director, budget, location, duration, poster } = snapshot;
+  const common = { title, director, budget, location, duration, poster };
+  return snapshot.type === 'movie'
+    ? { ...common, type: 'movie', year: snapshot.year }
+    : { ...common, type: 'tvshow', startYear: snapshot.startYear, endYear: snapshot.endYear };
+}
@@ -0,0 +1,44 @@
+// Client-side checks and resizing for poster uploads, so the server only
+// receives reasonably sized images in a format it accepts.
+
+export const POSTER_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const POSTER_MAX_BYTES = 5 * 1024 * 1024;
+
+// Posters are shown at most this large, so bigger images are scaled down
+const MAX_WIDTH = 600;
+const MAX_HEIGHT = 900;
+const QUALITY = 0.85;
+
+// Returns a message describing why the file can't be used, or null
+export function checkPosterFile(file: File): string | null {
+  if (!POSTER_TYPES.includes(file.type)) {
+    return 'Choose a JPEG, PNG or WebP image.';
+  }
+  if (file.size > POSTER_MAX_BYTES) {
+    return `Images must be smaller than ${POSTER_MAX_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+}
+
+export async function resizeImage(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_WIDTH / bitmap.width, MAX_HEIGHT / bitmap.height);
+  if (scale === 1) {
+    bitmap.close();
+    return file;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not resize the image.'))),
+      file.type,
+      QUALITY
+    );
+  });
+}
@@ -0,0 +1,158 @@
+import { parseCSV, toCSV } from './csv';
+import { movieSchema, tvShowSchema } from './schemas';
+import type { MediaFormData, MediaTab } from '../types';
+
+// Turning a spreadsheet or JSON export into validated form data: read the
+// file, map its columns onto form fields, then run every row through the same
+// zod schema the add/edit forms use.
+
+export interface ImportField {
+  name: string;
+  label: string;
+  numeric: boolean;
+  // Alternative column headings recognised when guessing the mapping
+  aliases: string[];
+}
+
+const commonFields: ImportField[] = [
+  { name: 'title', label: 'Title', numeric: false, aliases: ['name'] },
+  { name: 'director', label: 'Director', numeric: false, aliases: ['directedby', 'creator'] },
+  { name: 'budget', label: 'Budget', numeric: true, aliases: ['budgetm', 'budgetmillions', 'cost'] },
+  { name: 'location', label: 'Location', numeric: false, aliases: ['filminglocation', 'country'] },
+  { name: 'duration', label: 'Duration', numeric: true, aliases: ['runtime', 'length', 'minutes'] },
+];
+
+export const IMPORT_FIELDS: Record<MediaTab, ImportField[]> = {
+  movies: [
+    ...commonFields,
+    { name: 'year', label: 'Release Year', numeric: true, aliases: ['releaseyear', 'released'] },
+    { name: 'poster', label: 'Poster URL', numeric: false, aliases: ['posterurl', 'image', 'imageurl'] },
+  ],
+  tvshows: [
+    ...commonFields,
+    { name: 'startYear', label: 'Start Year', numeric: true, aliases: ['start', 'firstaired', 'year'] },
+    { name: 'endYear', label: 'End Year', numeric: true, aliases: ['end', 'lastaired'] },
+    { name: 'poster', label: 'Poster URL', numeric: false, aliases: ['posterurl', 'image', 'imageurl'] },
+  ],
+};
+
+const schemas = {
+  movies: movieSchema,
+  tvshows: tvShowSchema,
+};
+
+type RawValue = string | number | boolean | null | undefined;
+
+export interface ImportTable {
+  headers: string[];
+  records: Record<string, RawValue>[];
+}
+
+// Form field name -> source column heading ('' when the field is not mapped)
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportRow {
+  // 1-based position of the record in the file, for error reporting
+  row: number;
+  title: string;
+  data?: MediaFormData;
+  errors: string[];
+}
+
+function readJSON(text: string): ImportTable {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON files must contain an array of objects (or { "data": [...] }).');
+  }
+
+  const records = list.filter((entry): entry is Record<string, RawValue> =>
+    typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+  );
+  const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return { headers, records };
+}
+
+function readCSV(text: string): ImportTable {
+  const [headerRow, ...rows] = parseCSV(text);
+  if (!headerRow) {
+    throw new Error('The CSV file is empty.');
+  }
+  const headers = headerRow.map(header => header.trim());
+  const records = rows.map(cells =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))
+  );
+  return { headers, records };
+}
+
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const text = await file.text();
+  const isJSON = file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+  try {
+    return isJSON ? readJSON(text) : readCSV(text);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${file.name} is not valid JSON.`);
+    }
+    throw error;
+  }
+}
+
+const normalize = (heading: string) => heading.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function guessMapping(tab: MediaTab, headers: string[]): ColumnMapping {
+  const byNormalized = new Map(headers.map(header => [normalize(header), header]));
+  return Object.fromEntries(
+    IMPORT_FIELDS[tab].map(field => {
+      const candidates = [field.name, field.label, ...field.aliases].map(normalize);
+      const match = candidates.map(candidate => byNormalized.get(candidate)).find(Boolean);
+      return [field.name, match ?? ''];
+    })
+  );
+}
+
+// Spreadsheet cells arrive as strings; numbers are coerced and blanks treated as missing
+function coerce(value: RawValue, numeric: boolean): unknown {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  if (text === '') return undefined;
+  if (!numeric) return text;
+  const number = Number(text.replace(/[$,\s]/g, ''));
+  return Number.isNaN(number) ? text : number;
+}
+
+export function validateRows(tab: MediaTab, table: ImportTable, mapping: ColumnMapping): ImportRow[] {
+  const fields = IMPORT_FIELDS[tab];
+  const labels = new Map(fields.map(field => [field.name, field.label]));
+
+  return table.records.map((record, index) => {
+    const candidate: Record<string, unknown> = {};
+    fields.forEach(field => {
+      const column = mapping[field.name];
+      if (!column) return;
+      const value = coerce(record[column], field.numeric);
+      if (value !== undefined) candidate[field.name] = value;
+    });
+
+    const title = typeof candidate.title === 'string' ? candidate.title : '';
+    const result = schemas[tab].safeParse(candidate);
+    if (result.success) {
+      return { row: index + 1, title, data: result.data, errors: [] };
+    }
+    return {
+      row: index + 1,
+      title,
+      errors: result.error.issues.map(issue => {
+        const field = String(issue.path[0] ?? '');
+        return `${labels.get(field) ?? field}: ${issue.message}`;
+      }),
+    };
+  });
+}
+
+export function buildErrorReport(rows: ImportRow[]): string {
+  return toCSV([
+    ['Row', 'Title', 'Error'],
+    ...rows.flatMap(row => row.errors.map(error => [row.row, row.title, error])),
+  ]);
+}
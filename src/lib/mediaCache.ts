@@ -0,0 +1,529 @@
+import { movieApi, tvShowApi } from './api';
+import type { ListQuery } from './api';
+import { toApiError } from './errors';
+import type { ApiError } from './errors';
+import { conflictingCopy, withConflictingCopy } from './conflicts';
+import { snapshotFormData } from './history';
+import { compareItems, emptyCursor, listPages, takeMerged } from './mergedList';
+import type { MergedCursor } from './mergedList';
+import { dequeue, enqueue, getQueue } from './offlineQueue';
+import type { QueuedMutation } from './offlineQueue';
+import { loadOffline, saveOffline } from './offlineStore';
+import type { ListTab, MediaItem, MediaTab, MediaFormData, Movie, TVShow, BulkEditChanges, BulkItemResult, FieldChanges } from '../types';
+
+// Client-side cache of paginated lists, keyed by tab + query. Entries survive
+// tab switches, and mutations patch every cached list of the affected tab in
+// place (optimistically) instead of throwing the loaded pages away.
+// Every fetched list is also saved to IndexedDB and shown from there when the
+// server can't be reached; mutations made meanwhile are queued (offlineQueue.ts).
+
+export const PAGE_SIZE = 10;
+
+export interface ListEntry {
+  items: MediaItem[];
+  page: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isStale: boolean;
+  error?: ApiError;
+}
+
+const entries = new Map<string, ListEntry>();
+const listeners = new Set<() => void>();
+const latestRequest = new Map<string, number>();
+// Where each merged ("all") list is up to in the movie and TV show streams
+const cursors = new Map<string, MergedCursor>();
+// Placeholder ids outlive a reload while their create is queued, hence the timestamp
+let optimisticId = 0;
+const nextOptimisticId = () => `optimistic-${Date.now().toString(36)}-${++optimisticId}`;
+
+// Placeholders whose create is on its way to the server. They have no real id
+// yet, so nothing can be done with them until it arrives. (Queued creates are
+// different: changes to them are folded into the queued create.)
+const sendingCreates = new Set<string>();
+
+export const cacheKey = (tab: ListTab, query: ListQuery) => `${tab}:${JSON.stringify(query)}`;
+
+export const tabForItem = (item: Pick<MediaItem, 'type'>): MediaTab =>
+  item.type === 'movie' ? 'movies' : 'tvshows';
+
+// Merged lists hold items of both tabs, so they're affected by either
+const isKeyForTab = (key: string, tab: MediaTab) => key.startsWith(`${tab}:`) || key.startsWith('all:');
+
+function emit() {
+  listeners.forEach(listener => listener());
+}
+
+export const isBeingCreated = (item: MediaItem) => sendingCreates.has(item.id);
+
+function setEntry(key: string, patch: Partial<ListEntry>) {
+  const current = entries.get(key) ?? {
+    items: [],
+    page: 0,
+    hasMore: true,
+    isLoading: false,
+    isStale: false,
+  };
+  entries.set(key, { ...current, ...patch });
+  emit();
+}
+
+// Applies fn to the items of every cached list for the tab
+function updateTab(tab: MediaTab, fn: (items: MediaItem[], key: string) => MediaItem[]) {
+  entries.forEach((entry, key) => {
+    if (isKeyForTab(key, tab)) {
+      entries.set(key, { ...entry, items: fn(entry.items, key) });
+    }
+  });
+  emit();
+}
+
+function markStale(tab: MediaTab, exceptKey?: string) {
+  entries.forEach((entry, key) => {
+    if (isKeyForTab(key, tab) && key !== exceptKey) {
+      entries.set(key, { ...entry, isStale: true });
+    }
+  });
+  emit();
+}
+
+// For changes made outside the cache (e.g. a file import): every list of the
+// tab refetches, including the one on screen.
+export function invalidateTab(tab: MediaTab) {
+  markStale(tab);
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getEntry(key: string): ListEntry | undefined {
+  return entries.get(key);
+}
+
+async function fetchPages(tab: MediaTab, query: ListQuery, page: number, pageCount: number) {
+  const api = tab === 'movies' ? movieApi : tvShowApi;
+  const response = pageCount > 1
+    ? await api.getAll(1, PAGE_SIZE * pageCount, query)
+    : await api.getAll(page, PAGE_SIZE, query);
+  return { items: response.data.data as MediaItem[], hasMore: response.data.meta.hasMore, cursor: undefined };
+}
+
+// Page 1 starts both streams over; later pages continue where the last one stopped
+const fetchMerged = (key: string, query: ListQuery, page: number, pageCount: number) => {
+  const start = page === 1 ? emptyCursor() : cursors.get(key) ?? emptyCursor();
+  return takeMerged(listPages(query), compareItems(query.sort), start, PAGE_SIZE * pageCount, PAGE_SIZE);
+};
+
+// Loads `pageCount` pages starting at `page` (page 1 replaces the list).
+// Reloading several pages at once is done as a single larger request.
+export async function fetchList(tab: ListTab, query: ListQuery, page: number, pageCount = 1) {
+  const key = cacheKey(tab, query);
+  const requestId = (latestRequest.get(key) ?? 0) + 1;
+  latestRequest.set(key, requestId);
+
+  setEntry(key, { isLoading: true, error: undefined });
+  try {
+    const { items, hasMore, cursor } = tab === 'all'
+      ? await fetchMerged(key, query, page, pageCount)
+      : await fetchPages(tab, query, page, pageCount);
+    if (latestRequest.get(key) !== requestId) return;
+
+    if (cursor) cursors.set(key, cursor);
+    const previous = entries.get(key)?.items ?? [];
+    const loaded = page === 1 ? items : [...previous, ...items];
+    setEntry(key, {
+      items: loaded,
+      page: page + pageCount - 1,
+      hasMore,
+      isLoading: false,
+      isStale: false,
+    });
+    saveOffline<SavedList>(savedListKey(key), { items: loaded });
+  } catch (error) {
+    const apiError = toApiError(error);
+    const saved = apiError.kind === 'network' && !entries.get(key)?.items.length
+      ? await loadOffline<SavedList>(savedListKey(key))
+      : undefined;
+    if (latestRequest.get(key) === requestId) {
+      // A saved copy is shown as is; page 0 makes "Retry" reload it from the start
+      setEntry(key, saved
+        ? { items: withQueuedChanges(saved.items, tab), page: 0, hasMore: false, isLoading: false, error: apiError }
+        : { isLoading: false, error: apiError });
+    }
+    throw apiError;
+  }
+}
+
+interface SavedList {
+  items: MediaItem[];
+}
+
+const savedListKey = (key: string) => `list:${key}`;
+
+// Lays changes still waiting in the queue over a saved list
+function withQueuedChanges(items: MediaItem[], tab: ListTab): MediaItem[] {
+  return getQueue()
+    .filter(mutation => tab === 'all' || tabForItem(mutation.item) === tab)
+    .reduce((list, mutation) => {
+      if (mutation.kind === 'create') return [mutation.item, ...list];
+      if (mutation.kind === 'delete') return list.filter(item => item.id !== mutation.item.id);
+      return list.map(item => (item.id === mutation.item.id ? { ...item, ...mutation.data } as MediaItem : item));
+    }, items);
+}
+
+// Sends a change unless earlier ones are still queued (the server has to see
+// them in order), queueing it instead if the server can't be reached.
+// Resolves to the response, or to the queued change's undo function.
+async function sendOrQueue<T>(
+  send: () => Promise<T>,
+  mutation: Omit<QueuedMutation, 'id'>
+): Promise<{ response: T } | { undo: () => void }> {
+  if (getQueue().length === 0) {
+    try {
+      return { response: await send() };
+    } catch (error) {
+      if (toApiError(error).kind !== 'network') throw error;
+    }
+  }
+  return { undo: enqueue(mutation) };
+}
+
+const createRequest = (data: MediaFormData): Promise<{ data: MediaItem }> =>
+  data.type === 'movie' ? movieApi.create(data) : tvShowApi.create(data);
+
+// Replaces every field of `item`
+const updateRequest = (item: MediaItem, data: MediaFormData): Promise<{ data: MediaItem }> =>
+  data.type === 'movie'
+    ? movieApi.update(item.id, data, item.updatedAt)
+    : tvShowApi.update(item.id, data, item.updatedAt);
+
+// Sends only the fields in `changes`, as a partial update of `item`
+const patchRequest = (item: MediaItem, changes: FieldChanges<MediaFormData>): Promise<{ data: MediaItem }> =>
+  item.type === 'movie'
+    ? movieApi.patch(item.id, changes as FieldChanges<Movie>, item.updatedAt)
+    : tvShowApi.patch(item.id, changes as FieldChanges<TVShow>, item.updatedAt);
+
+// The values changes leave on an item: cleared (null) fields become unset
+const changedValues = (changes: FieldChanges<MediaFormData>): Partial<MediaFormData> =>
+  Object.fromEntries(Object.entries(changes).map(([name, value]) => [name, value ?? undefined]));
+
+// The new item is shown at the top of the list the user added it from. Other
+// cached lists of that tab may sort or filter it differently, so they refetch
+// the next time they are viewed.
+export async function createItem(data: MediaFormData, activeKey: string): Promise<MediaItem> {
+  const tab = tabForItem(data);
+  const now = new Date().toISOString();
+  const placeholder = {
+    ...data,
+    id: nextOptimisticId(),
+    createdAt: now,
+    updatedAt: now,
+  } as MediaItem;
+
+  sendingCreates.add(placeholder.id);
+  const entry = entries.get(activeKey);
+  if (entry) {
+    setEntry(activeKey, { items: [placeholder, ...entry.items] });
+  }
+
+  try {
+    const result = await sendOrQueue(() => createRequest(data), { kind: 'create', item: placeholder, data });
+    // A queued item keeps its placeholder until the queue is replayed
+    if (!('response' in result)) return placeholder;
+    const { response } = result;
+    updateTab(tab, items => items.map(item => (item.id === placeholder.id ? response.data : item)));
+    markStale(tab, activeKey);
+    return response.data;
+  } catch (error) {
+    updateTab(tab, items => items.filter(item => item.id !== placeholder.id));
+    throw error;
+  } finally {
+    sendingCreates.delete(placeholder.id);
+    emit();
+  }
+}
+
+// Edits of an item are sent one at a time, each based on the version the edit
+// before it saved, so quick successive edits (two cells, say) don't conflict
+// with each other. Each link resolves to the saved copy, if there is one.
+const updateChains = new Map<string, Promise<MediaItem | undefined>>();
+
+// The update is based on `original.updatedAt`. If someone else saved since,
+// the lists show their copy and the conflict error carries it (see conflicts.ts).
+// `isPartial` sends just the fields in `changes` (e.g. one table cell) as a
+// PATCH; a queued copy keeps the whole form either way, for conflict review.
+// Like a new item, the saved copy may sort or filter differently in cached
+// lists other than `activeKey`, so they refetch when next viewed.
+async function saveItem(
+  original: MediaItem,
+  changes: FieldChanges<MediaFormData>,
+  isPartial: boolean,
+  activeKey: string
+): Promise<MediaItem> {
+  const tab = tabForItem(original);
+  // Keeps the loaded version, which the next edit of the item is based on
+  const data = changedValues(changes);
+  const optimistic = { ...original, ...data } as MediaItem;
+  const replace = (next: MediaItem) =>
+    updateTab(tab, items => items.map(item => (item.id === original.id ? next : item)));
+
+  replace(optimistic);
+  const previous = updateChains.get(original.id);
+  const request = (async () => {
+    const saved = await previous;
+    const base = saved ? { ...original, updatedAt: saved.updatedAt } : original;
+    const full = { ...snapshotFormData(base), ...data } as MediaFormData;
+    return sendOrQueue(
+      () => (isPartial ? patchRequest(base, changes) : updateRequest(base, full)),
+      { kind: 'update', item: base, data: full }
+    );
+  })();
+  const chain = request.then(result => ('response' in result ? result.response.data : undefined), () => undefined);
+  updateChains.set(original.id, chain);
+  // A later edit's copy is already shown and its response replaces this one
+  const isLatest = () => updateChains.get(original.id) === chain;
+
+  try {
+    const result = await request;
+    if (!('response' in result)) return optimistic;
+    if (isLatest()) replace(result.response.data);
+    markStale(tab, activeKey);
+    return result.response.data;
+  } catch (error) {
+    const failure = await withConflictingCopy(original, error);
+    if (isLatest()) replace(conflictingCopy(failure) ?? original);
+    throw failure;
+  } finally {
+    if (isLatest()) updateChains.delete(original.id);
+  }
+}
+
+export const updateItem = (original: MediaItem, data: MediaFormData, activeKey: string) =>
+  saveItem(original, data, false, activeKey);
+
+// Changes only the given fields, leaving the rest as the server has them
+export const patchItem = (original: MediaItem, changes: FieldChanges<MediaFormData>, activeKey: string) =>
+  saveItem(original, changes, true, activeKey);
+
+type RemovedRows = Map<string, { item: MediaItem; index: number }[]>;
+
+// Removes the given rows from every cached list of the tab, remembering where
+// they were so that any of them can be put back in place later
+function removeRows(tab: MediaTab, ids: Set<string>): RemovedRows {
+  const removed: RemovedRows = new Map();
+  updateTab(tab, (items, key) => {
+    const rows = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => ids.has(item.id));
+    if (rows.length === 0) return items;
+    removed.set(key, rows);
+    return items.filter(item => !ids.has(item.id));
+  });
+  return removed;
+}
+
+function restoreRows(tab: MediaTab, removed: RemovedRows, ids: Set<string>) {
+  updateTab(tab, (items, key) => {
+    const next = [...items];
+    // Rows that stay deleted shift the original index of every later row by one
+    let stillRemoved = 0;
+    (removed.get(key) ?? []).forEach(({ item, index }) => {
+      if (ids.has(item.id)) {
+        next.splice(index - stillRemoved, 0, item);
+      } else {
+        stillRemoved++;
+      }
+    });
+    return next;
+  });
+}
+
+// Deleting moves the item to the trash. The returned function restores it
+// and puts it back where it was in each list.
+export async function deleteItem(target: MediaItem): Promise<() => Promise<MediaItem>> {
+  const tab = tabForItem(target);
+  const ids = new Set([target.id]);
+  const removed = removeRows(tab, ids);
+  const api = tab === 'movies' ? movieApi : tvShowApi;
+
+  let result;
+  try {
+    result = await sendOrQueue(() => api.delete(target.id), { kind: 'delete', item: target });
+  } catch (error) {
+    restoreRows(tab, removed, ids);
+    throw error;
+  }
+
+  if ('undo' in result) {
+    const { undo } = result;
+    return async () => {
+      undo();
+      restoreRows(tab, removed, ids);
+      return target;
+    };
+  }
+  return async () => {
+    const response = await api.restore(target.id);
+    restoreRows(tab, removed, ids);
+    updateTab(tab, items => items.map(item => (item.id === target.id ? response.data : item)));
+    return response.data;
+  };
+}
+
+const missingResult = (id: string): BulkItemResult<MediaItem> => ({
+  id,
+  success: false,
+  error: 'The server did not report a result for this item',
+});
+
+// Bulk operations are applied optimistically to every target; items the server
+// reports as failed are rolled back individually, and a failed request rolls
+// back all of them.
+async function bulkUpdateTab(
+  tab: MediaTab,
+  targets: MediaItem[],
+  changes: BulkEditChanges
+): Promise<BulkItemResult<MediaItem>[]> {
+  const originals = new Map(targets.map(item => [item.id, item]));
+  const updatedAt = new Date().toISOString();
+  updateTab(tab, items => items.map(item =>
+    originals.has(item.id) ? { ...item, ...changes, updatedAt } as MediaItem : item
+  ));
+
+  try {
+    const ids = [...originals.keys()];
+    const response = tab === 'movies'
+      ? await movieApi.bulkUpdate(ids, changes)
+      : await tvShowApi.bulkUpdate(ids, changes);
+    const results = new Map<string, BulkItemResult<MediaItem>>(
+      response.data.results.map(result => [result.id, result])
+    );
+
+    updateTab(tab, items => items.map(item => {
+      const original = originals.get(item.id);
+      if (!original) return item;
+      const result = results.get(item.id);
+      if (!result?.success) return original;
+      return result.item ?? item;
+    }));
+    return ids.map(id => results.get(id) ?? missingResult(id));
+  } catch (error) {
+    updateTab(tab, items => items.map(item => originals.get(item.id) ?? item));
+    throw error;
+  }
+}
+
+async function bulkDeleteTab(tab: MediaTab, targets: MediaItem[]): Promise<BulkItemResult<MediaItem>[]> {
+  const ids = targets.map(item => item.id);
+  const removed = removeRows(tab, new Set(ids));
+
+  try {
+    const response = tab === 'movies'
+      ? await movieApi.bulkDelete(ids)
+      : await tvShowApi.bulkDelete(ids);
+    const results = new Map<string, BulkItemResult<MediaItem>>(
+      response.data.results.map(result => [result.id, result])
+    );
+
+    const failed = new Set(ids.filter(id => !results.get(id)?.success));
+    if (failed.size > 0) {
+      restoreRows(tab, removed, failed);
+    }
+    return ids.map(id => results.get(id) ?? missingResult(id));
+  } catch (error) {
+    restoreRows(tab, removed, new Set(ids));
+    throw error;
+  }
+}
+
+// Targets may mix movies and TV shows (the "All" tab), so each type is sent
+// to its own endpoint. A request that fails outright is reported against
+// every item it covered instead of hiding the other type's results.
+async function bulkByTab(
+  targets: MediaItem[],
+  run: (tab: MediaTab, items: MediaItem[]) => Promise<BulkItemResult<MediaItem>[]>
+): Promise<BulkItemResult<MediaItem>[]> {
+  const groups = (['movies', 'tvshows'] as const)
+    .map(tab => ({ tab, items: targets.filter(item => tabForItem(item) === tab) }))
+    .filter(group => group.items.length > 0);
+  const settled = await Promise.allSettled(groups.map(group => run(group.tab, group.items)));
+
+  if (settled.every(result => result.status === 'rejected')) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return settled.flatMap((result, index) => result.status === 'fulfilled'
+    ? result.value
+    : groups[index].items.map(item => ({ id: item.id, success: false, error: toApiError(result.reason).message })));
+}
+
+export const bulkUpdateItems = (targets: MediaItem[], changes: BulkEditChanges) =>
+  bulkByTab(targets, (tab, items) => bulkUpdateTab(tab, items, changes));
+
+export const bulkDeleteItems = (targets: MediaItem[]) => bulkByTab(targets, bulkDeleteTab);
+
+export interface ReplayReport {
+  synced: number;
+  failed: { item: MediaItem; message: string }[];
+  // Queued edits the server rejected because the item changed in the meantime
+  conflicts: { base: MediaItem; mine: MediaFormData; theirs: MediaItem }[];
+}
+
+async function sendQueued(mutation: QueuedMutation) {
+  const tab = tabForItem(mutation.item);
+  const replace = (next: MediaItem) =>
+    updateTab(tab, items => items.map(item => (item.id === mutation.item.id ? next : item)));
+
+  if (mutation.kind === 'create') {
+    replace((await createRequest(mutation.data as MediaFormData)).data);
+  } else if (mutation.kind === 'update') {
+    replace((await updateRequest(mutation.item, mutation.data as MediaFormData)).data);
+  } else {
+    await (tab === 'movies' ? movieApi : tvShowApi).delete(mutation.item.id);
+  }
+}
+
+// Sends queued changes in order. A network failure stops the replay and keeps
+// the rest for next time; any other failure drops that change and is reported,
+// and the lists of its tab refetch so they show what the server has.
+async function runReplay(): Promise<ReplayReport> {
+  const report: ReplayReport = { synced: 0, failed: [], conflicts: [] };
+  for (const mutation of getQueue()) {
+    const tab = tabForItem(mutation.item);
+    try {
+      await sendQueued(mutation);
+      report.synced++;
+    } catch (error) {
+      const failure = await withConflictingCopy(mutation.item, error);
+      const apiError = toApiError(failure);
+      if (apiError.kind === 'network') break;
+
+      const theirs = conflictingCopy(failure);
+      if (mutation.kind === 'delete' && apiError.kind === 'not_found') {
+        report.synced++;
+      } else if (theirs && mutation.data) {
+        report.conflicts.push({ base: mutation.item, mine: mutation.data, theirs });
+      } else {
+        report.failed.push({ item: mutation.item, message: apiError.message });
+      }
+      markStale(tab);
+    }
+    dequeue(mutation.id);
+  }
+  return report;
+}
+
+let replaying: Promise<ReplayReport> | null = null;
+
+// Concurrent calls (e.g. the "online" event during a periodic retry) share one replay
+export function replayQueue(): Promise<ReplayReport> {
+  if (!replaying) {
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
@@ -0,0 +1,161 @@
+import type { z } from 'zod';
+import { movieApi, tvShowApi } from './api';
+import { episodeSchema, movieSchema, seasonSchema, tvShowSchema } from './schemas';
+import type { EpisodeFormData, MediaFormData, MediaTab, MovieFormData, SeasonFormData, TVShowFormData } from '../types';
+
+// Everything MediaForm needs to render and validate one media type. A new
+// BaseItem subtype only needs a schema and one of these entries. Seasons and
+// episodes use the same form engine with their own configs.
+
+export interface FormFieldDescriptor {
+  name: string;
+  label: string;
+  // 'image' is a URL field that also accepts uploads
+  input: 'text' | 'number' | 'url' | 'date' | 'image';
+  placeholder?: string;
+  // A blank optional input is submitted as undefined instead of '' or 0
+  optional?: boolean;
+}
+
+// A check that needs the server, run once the user pauses typing. Resolves to
+// an error message, or null when the values are acceptable.
+export interface AsyncFieldRule<T extends object> {
+  // Field the message is shown on
+  field: string;
+  // Fields whose values are checked together
+  dependsOn: string[];
+  validate(data: Partial<T>, currentId?: string): Promise<string | null>;
+}
+
+export interface MediaFormConfig<T extends object = MediaFormData> {
+  // Shown in the submit button, e.g. "Add Movie"
+  noun: string;
+  // Per-field rules plus any cross-field refinements; issues are shown on the
+  // field named by their path
+  schema: z.ZodType<T>;
+  fields: FormFieldDescriptor[];
+  // Starting values for a new item
+  defaults: () => Partial<T>;
+  asyncRules?: AsyncFieldRule<T>[];
+}
+
+// The same shape checked against one media type, so field names and defaults
+// can't drift from its form data (`type` is fixed per form, not a field)
+interface TypedFormConfig<T extends object> extends Omit<MediaFormConfig<T>, 'fields'> {
+  fields: (FormFieldDescriptor & { name: Exclude<keyof T, 'type'> })[];
+}
+
+const defineMediaForm = <T extends object>(config: TypedFormConfig<T>): MediaFormConfig<T> => config;
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Enough search results to find an exact match among similar titles
+const DUPLICATE_SEARCH_LIMIT = 50;
+
+const uniqueMovie: AsyncFieldRule<MovieFormData> = {
+  field: 'title',
+  dependsOn: ['title', 'year'],
+  validate: async ({ title, year }, currentId) => {
+    if (!title?.trim() || !year) return null;
+    const response = await movieApi.getAll(1, DUPLICATE_SEARCH_LIMIT, {
+      filters: { search: title, minYear: year, maxYear: year },
+    });
+    const duplicate = response.data.data.find(movie =>
+      movie.id !== currentId && movie.year === year && sameTitle(movie.title, title)
+    );
+    return duplicate ? `A movie called "${duplicate.title}" from ${year} already exists` : null;
+  },
+};
+
+const uniqueTVShow: AsyncFieldRule<TVShowFormData> = {
+  field: 'title',
+  dependsOn: ['title', 'startYear'],
+  validate: async ({ title, startYear }, currentId) => {
+    if (!title?.trim() || !startYear) return null;
+    const response = await tvShowApi.getAll(1, DUPLICATE_SEARCH_LIMIT, {
+      filters: { search: title, minYear: startYear, maxYear: startYear },
+    });
+    const duplicate = response.data.data.find(show =>
+      show.id !== currentId && show.startYear === startYear && sameTitle(show.title, title)
+    );
+    return duplicate ? `A TV show called "${duplicate.title}" starting in ${startYear} already exists` : null;
+  },
+};
+
+const movieForm = defineMediaForm<MovieFormData>({
+  noun: 'Movie',
+  schema: movieSchema,
+  fields: [
+    { name: 'title', label: 'Title', input: 'text', placeholder: 'Enter movie title' },
+    { name: 'director', label: 'Director', input: 'text', placeholder: 'Enter director name' },
+    { name: 'budget', label: 'Budget', input: 'number', placeholder: 'Enter budget in millions' },
+    { name: 'location', label: 'Location', input: 'text', placeholder: 'Enter filming location' },
+    { name: 'duration', label: 'Duration', input: 'number', placeholder: 'Enter duration in minutes' },
+    { name: 'year', label: 'Release Year', input: 'number', placeholder: 'Enter release year' },
+    { name: 'poster', label: 'Poster', input: 'image', placeholder: 'Or paste an image URL (optional)', optional: true },
+  ],
+  defaults: () => ({
+    type: 'movie',
+    title: '',
+    director: '',
+    budget: 0,
+    location: '',
+    duration: 0,
+    year: new Date().getFullYear(),
+  }),
+  asyncRules: [uniqueMovie],
+});
+
+const tvShowForm = defineMediaForm<TVShowFormData>({
+  noun: 'TV Show',
+  schema: tvShowSchema,
+  fields: [
+    { name: 'title', label: 'Title', input: 'text', placeholder: 'Enter TV show title' },
+    { name: 'director', label: 'Director', input: 'text', placeholder: 'Enter director name' },
+    { name: 'budget', label: 'Budget', input: 'number', placeholder: 'Enter budget per episode' },
+    { name: 'location', label: 'Location', input: 'text', placeholder: 'Enter filming location' },
+    { name: 'duration', label: 'Duration', input: 'number', placeholder: 'Enter duration per episode' },
+    { name: 'startYear', label: 'Start Year', input: 'number', placeholder: 'Enter start year' },
+    { name: 'endYear', label: 'End Year', input: 'number', placeholder: 'Enter end year (optional)', optional: true },
+    { name: 'poster', label: 'Poster', input: 'image', placeholder: 'Or paste an image URL (optional)', optional: true },
+  ],
+  defaults: () => ({
+    type: 'tvshow',
+    title: '',
+    director: '',
+    budget: 0,
+    location: '',
+    duration: 0,
+    startYear: new Date().getFullYear(),
+  }),
+  asyncRules: [uniqueTVShow],
+});
+
+export const mediaForms: Record<MediaTab, MediaFormConfig> = {
+  movies: movieForm,
+  tvshows: tvShowForm,
+};
+
+export const seasonForm = defineMediaForm<SeasonFormData>({
+  noun: 'Season',
+  schema: seasonSchema,
+  fields: [
+    { name: 'seasonNumber', label: 'Season', input: 'number', placeholder: 'Enter season number' },
+    { name: 'episodeCount', label: 'Episodes', input: 'number', placeholder: 'Enter number of episodes' },
+    { name: 'premiereDate', label: 'Premiere Date', input: 'date', optional: true },
+    { name: 'finaleDate', label: 'Finale Date', input: 'date', optional: true },
+  ],
+  defaults: () => ({ seasonNumber: 1, episodeCount: 0 }),
+});
+
+export const episodeForm = defineMediaForm<EpisodeFormData>({
+  noun: 'Episode',
+  schema: episodeSchema,
+  fields: [
+    { name: 'episodeNumber', label: 'Episode', input: 'number', placeholder: 'Enter episode number' },
+    { name: 'title', label: 'Title', input: 'text', placeholder: 'Enter episode title' },
+    { name: 'airDate', label: 'Air Date', input: 'date', optional: true },
+    { name: 'director', label: 'Director', input: 'text', placeholder: 'Leave blank to use the show\'s director', optional: true },
+  ],
+  defaults: () => ({ episodeNumber: 1, title: '' }),
+});
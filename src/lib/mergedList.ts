@@ -0,0 +1,100 @@
+import { movieApi, tvShowApi } from './api';
+import type { ListQuery, PaginatedResponse } from './api';
+import type { MediaItem, MediaTab, SortState } from '../types';
+
+// The "All" tab has no endpoint of its own: it pages through the movie and TV
+// show lists side by side, with the same sort, and interleaves them.
+
+// Without a sort the merged list shows the newest additions first
+const DEFAULT_SORT: SortState = { field: 'createdAt', order: 'desc' };
+
+// "year" is a movie's release year and a show's start year
+const fieldFor = (tab: MediaTab, field: string) =>
+  tab === 'tvshows' && field === 'year' ? 'startYear' : field;
+
+export function streamQuery(tab: MediaTab, query: ListQuery): ListQuery {
+  const sort = query.sort ?? DEFAULT_SORT;
+  return { ...query, sort: { ...sort, field: fieldFor(tab, sort.field) } };
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const sortValue = (item: MediaItem, field: string) =>
+  (item as unknown as Record<string, unknown>)[fieldFor(item.type === 'movie' ? 'movies' : 'tvshows', field)];
+
+// Orders items the way the server orders each stream; missing values go last
+export function compareItems(sort: SortState | null | undefined): (a: MediaItem, b: MediaItem) => number {
+  const { field, order } = sort ?? DEFAULT_SORT;
+  const direction = order === 'desc' ? -1 : 1;
+  return (a: MediaItem, b: MediaItem) => {
+    const left = sortValue(a, field);
+    const right = sortValue(b, field);
+    if (isBlank(left)) return isBlank(right) ? 0 : 1;
+    if (isBlank(right)) return -1;
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * direction;
+    }
+    return String(left).localeCompare(String(right), undefined, { sensitivity: 'base' }) * direction;
+  };
+}
+
+interface StreamCursor {
+  page: number;
+  hasMore: boolean;
+  // Fetched rows that haven't been handed out yet
+  buffer: MediaItem[];
+}
+
+export type MergedCursor = Record<MediaTab, StreamCursor>;
+
+export const emptyCursor = (): MergedCursor => ({
+  movies: { page: 0, hasMore: true, buffer: [] },
+  tvshows: { page: 0, hasMore: true, buffer: [] },
+});
+
+// Fetches one page of a single stream
+export type PageFetcher = (tab: MediaTab, page: number, limit: number) =>
+  Promise<{ data: PaginatedResponse<MediaItem> }>;
+
+export const listPages = (query: ListQuery): PageFetcher => (tab, page, limit) =>
+  (tab === 'movies' ? movieApi : tvShowApi).getAll(page, limit, streamQuery(tab, query));
+
+async function refill(tab: MediaTab, stream: StreamCursor, fetchPage: PageFetcher, pageSize: number) {
+  const response = await fetchPage(tab, stream.page + 1, pageSize);
+  stream.page += 1;
+  stream.hasMore = response.data.meta.hasMore && response.data.data.length > 0;
+  stream.buffer.push(...response.data.data);
+}
+
+// Takes the next `count` rows of the merged list, ordered by `compare`. The
+// cursor is copied, not modified, so a superseded request can simply be dropped.
+export async function takeMerged(
+  fetchPage: PageFetcher,
+  compare: (a: MediaItem, b: MediaItem) => number,
+  cursor: MergedCursor,
+  count: number,
+  pageSize: number
+) {
+  const next: MergedCursor = {
+    movies: { ...cursor.movies, buffer: [...cursor.movies.buffer] },
+    tvshows: { ...cursor.tvshows, buffer: [...cursor.tvshows.buffer] },
+  };
+  const items: MediaItem[] = [];
+
+  while (items.length < count) {
+    // A head can only be picked once both streams have one (or are exhausted)
+    const empty = (['movies', 'tvshows'] as const).filter(tab => next[tab].buffer.length === 0 && next[tab].hasMore);
+    await Promise.all(empty.map(tab => refill(tab, next[tab], fetchPage, pageSize)));
+    const movie = next.movies.buffer[0];
+    const show = next.tvshows.buffer[0];
+    if (!movie && !show) break;
+    if (movie && (!show || compare(movie, show) <= 0)) {
+      items.push(next.movies.buffer.shift()!);
+    } else {
+      items.push(next.tvshows.buffer.shift()!);
+    }
+  }
+
+  const hasMore = (['movies', 'tvshows'] as const).some(tab => next[tab].buffer.length > 0 || next[tab].hasMore);
+  return { items, cursor: next, hasMore };
+}
@@ -0,0 +1,86 @@
+import { loadOffline, saveOffline } from './offlineStore';
+import type { MediaFormData, MediaItem } from '../types';
+
+// Creates, edits and deletes made while the server can't be reached, kept in
+// IndexedDB and replayed in order once it can (see replayQueue in mediaCache).
+
+export interface QueuedMutation {
+  // Increasing, so sorting by id restores queue order
+  id: number;
+  kind: 'create' | 'update' | 'delete';
+  // The copy the change was made to: the placeholder for a create, the base
+  // version for an edit, the removed item for a delete
+  item: MediaItem;
+  data?: MediaFormData;
+}
+
+const QUEUE_KEY = 'queue';
+
+let queue: QueuedMutation[] = [];
+let pendingIds = new Set<string>();
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function setQueue(next: QueuedMutation[]) {
+  queue = next.sort((a, b) => a.id - b.id);
+  pendingIds = new Set(queue.map(mutation => mutation.item.id));
+  nextId = Math.max(nextId, ...queue.map(mutation => mutation.id + 1));
+  listeners.forEach(listener => listener());
+  saveOffline(QUEUE_KEY, queue);
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const getQueue = (): QueuedMutation[] => queue;
+
+// Items with changes that haven't reached the server yet
+export const getPendingIds = (): Set<string> => pendingIds;
+
+export async function loadQueue() {
+  const saved = await loadOffline<QueuedMutation[]>(QUEUE_KEY);
+  if (saved?.length) {
+    // Anything queued before the saved copy finished loading goes after it
+    const lastSaved = Math.max(...saved.map(mutation => mutation.id));
+    setQueue([...saved, ...queue.map((mutation, index) => ({ ...mutation, id: lastSaved + index + 1 }))]);
+  }
+}
+
+// Adds a change to the queue. Changes to an item whose create or edit is
+// still queued are folded into it, so the item is sent once, against the
+// version the server has. Returns a function that takes the change back out,
+// for "Undo".
+export function enqueue(mutation: Omit<QueuedMutation, 'id'>): () => void {
+  const create = queue.find(queued => queued.kind === 'create' && queued.item.id === mutation.item.id);
+  const update = queue.find(queued => queued.kind === 'update' && queued.item.id === mutation.item.id);
+
+  if (create && mutation.kind === 'update') {
+    const merged = { ...create, data: { ...create.data, ...mutation.data } as MediaFormData };
+    setQueue(queue.map(queued => (queued === create ? merged : queued)));
+    return () => setQueue([...queue.filter(queued => queued.id !== create.id), create]);
+  }
+  if (update && mutation.kind === 'update') {
+    // The first edit's base version is kept, as the server hasn't seen any of them
+    const merged = { ...update, data: { ...update.data, ...mutation.data } as MediaFormData };
+    setQueue(queue.map(queued => (queued === update ? merged : queued)));
+    return () => setQueue([...queue.filter(queued => queued.id !== update.id), update]);
+  }
+  if (create && mutation.kind === 'delete') {
+    // The item never reached the server, so there's nothing to delete there
+    const removed = queue.filter(queued => queued.item.id === mutation.item.id);
+    setQueue(queue.filter(queued => queued.item.id !== mutation.item.id));
+    return () => setQueue([...queue, ...removed]);
+  }
+
+  const added: QueuedMutation = { ...mutation, id: nextId++ };
+  setQueue([...queue, added]);
+  return () => setQueue(queue.filter(queued => queued.id !== added.id));
+}
+
+export function dequeue(id: number) {
+  setQueue(queue.filter(mutation => mutation.id !== id));
+}
@@ -0,0 +1,50 @@
+// Promise wrappers around a single IndexedDB key/value store. Like storage.ts
+// they never throw: without IndexedDB (private mode, old browsers) reads come
+// back empty and writes are dropped.
+
+const DB_NAME = 'media-manager';
+const STORE = 'offline';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function loadOffline<T>(key: string): Promise<T | undefined> {
+  try {
+    return (await run('readonly', store => store.get(key))) as T | undefined;
+  } catch (error) {
+    console.error(`Failed to read ${key} from offline storage:`, error);
+    return undefined;
+  }
+}
+
+export async function saveOffline<T>(key: string, value: T) {
+  try {
+    await run('readwrite', store => store.put(value, key));
+  } catch (error) {
+    console.error(`Failed to write ${key} to offline storage:`, error);
+  }
+}
@@ -0,0 +1,15 @@
+import type { Role, User } from '../types';
+
+export type Permission = 'create' | 'update' | 'delete';
+
+// Viewers can only browse; editors maintain the catalogue; only admins remove from it
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['create', 'update'],
+  admin: ['create', 'update', 'delete'],
+};
+
+export function hasPermission(user: User | null, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,55 @@
+import { useSyncExternalStore } from 'react';
+
+// Minimal History API router: the URL is the single source of truth and
+// components re-render whenever it changes via navigate() or back/forward.
+
+const NAVIGATE_EVENT = 'app:navigate';
+
+export interface NavigateOptions {
+  replace?: boolean;
+  state?: unknown;
+}
+
+function subscribe(callback: () => void) {
+  window.addEventListener('popstate', callback);
+  window.addEventListener(NAVIGATE_EVENT, callback);
+  return () => {
+    window.removeEventListener('popstate', callback);
+    window.removeEventListener(NAVIGATE_EVENT, callback);
+  };
+}
+
+function getSnapshot() {
+  return window.location.pathname + window.location.search;
+}
+
+export function useLocation() {
+  const href = useSyncExternalStore(subscribe, getSnapshot);
+  const [pathname, search = ''] = href.split('?');
+  return { pathname, search: search ? `?${search}` : '' };
+}
+
+export function navigate(to: string, { replace = false, state = null }: NavigateOptions = {}) {
+  if (to === getSnapshot() && replace) return;
+  if (replace) {
+    window.history.replaceState(state, '', to);
+  } else {
+    window.history.pushState(state, '', to);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+// Rewrites a single query parameter in place without adding a history entry
+export function replaceSearchParam(key: string, value: string | null) {
+  const params = new URLSearchParams(window.location.search);
+  if (value === null) {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+  const query = params.toString();
+  navigate(`${window.location.pathname}${query ? `?${query}` : ''}`, {
+    replace: true,
+    state: window.history.state,
+  });
+}
@@ -0,0 +1,163 @@
+import { columnsForTab } from './columns';
+import type { ListTab, MediaTab, MediaFilters, SortState } from '../types';
+
+// URL layout:
+//   /movies, /tvshows                  list view
+//   /movies/new                        add dialog
+//   /movies/:id                        read-only view
+//   /movies/:id/edit, /movies/:id/delete
+//   /all, /all/new, /all/tvshows/:id   merged list; items carry their own tab
+//   /login?next=/movies/new            sign-in screen, returning to `next`
+//   /trash                             deleted items of both types
+//   /dashboard                         charts over the whole collection
+// List state (sort, filters, loaded page count) lives in the query string.
+
+export type RouteView = 'list' | 'new' | 'view' | 'edit' | 'delete' | 'login' | 'trash' | 'dashboard';
+
+export interface AppRoute {
+  tab: ListTab;
+  view: RouteView;
+  id?: string;
+  // The item's own tab when `tab` is "all"
+  itemTab?: MediaTab;
+  sort: SortState | null;
+  filters: MediaFilters;
+  page: number;
+  next?: string;
+}
+
+const MEDIA_TABS: MediaTab[] = ['movies', 'tvshows'];
+const TABS: ListTab[] = [...MEDIA_TABS, 'all'];
+const TEXT_FILTERS = ['search', 'location'] as const;
+const NUMBER_FILTERS = [
+  'minBudget',
+  'maxBudget',
+  'minDuration',
+  'maxDuration',
+  'minYear',
+  'maxYear',
+] as const;
+
+export const DEFAULT_ROUTE: AppRoute = {
+  tab: 'movies',
+  view: 'list',
+  sort: null,
+  filters: {},
+  page: 1,
+};
+
+function parseQuery(search: string, tab: ListTab): Pick<AppRoute, 'sort' | 'filters' | 'page'> {
+  const params = new URLSearchParams(search);
+
+  // Only the tab's sortable columns reach the API; anything else is unsorted
+  const sortField = params.get('sort');
+  const order = params.get('order');
+  const canSort = columnsForTab(tab).some(column => column.sortable && column.accessor === sortField);
+  const sort = sortField && canSort
+    ? { field: sortField, order: order === 'desc' ? 'desc' as const : 'asc' as const }
+    : null;
+
+  const filters: MediaFilters = {};
+  TEXT_FILTERS.forEach((key) => {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  });
+  NUMBER_FILTERS.forEach((key) => {
+    // An empty param ("?minYear=") is absent, not 0
+    const text = params.get(key)?.trim();
+    const value = Number(text);
+    if (text && !Number.isNaN(value)) filters[key] = value;
+  });
+
+  const page = Math.max(1, Math.floor(Number(params.get('page')) || 1));
+
+  return { sort, filters, page };
+}
+
+// Malformed escapes (e.g. "%E0") make the path unknown instead of throwing
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+// Returns null for paths that don't map to any view
+export function parseRoute(pathname: string, search: string): AppRoute | null {
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 1 && segments[0] === 'login') {
+    const next = new URLSearchParams(search).get('next');
+    // Only same-app paths are honoured as a return target
+    const isLocal = next !== null && next.startsWith('/') && !next.startsWith('//');
+    return { ...DEFAULT_ROUTE, view: 'login', next: isLocal ? next : undefined };
+  }
+  if (segments.length === 1 && (segments[0] === 'trash' || segments[0] === 'dashboard')) {
+    return { ...DEFAULT_ROUTE, view: segments[0] };
+  }
+
+  const tab = segments[0] as ListTab;
+  if (!TABS.includes(tab)) return null;
+
+  const query = parseQuery(search, tab);
+  if (tab === 'all' && segments.length > 2) {
+    // Item paths in the merged list are prefixed with the item's tab
+    const itemTab = segments[1] as MediaTab;
+    if (!MEDIA_TABS.includes(itemTab)) return null;
+    const route = parseRoute(`/${itemTab}/${segments.slice(2).join('/')}`, search);
+    return route && route.view !== 'list' && route.view !== 'new' ? { ...route, ...query, tab, itemTab } : null;
+  }
+  if (segments.length === 1) {
+    return { tab, view: 'list', ...query };
+  }
+  // "new" is the add dialog's segment, so it is never read as an item id
+  if (segments[1] === 'new') {
+    return segments.length === 2 ? { tab, view: 'new', ...query } : null;
+  }
+  if (segments.length === 2) {
+    const id = decodeSegment(segments[1]);
+    return tab !== 'all' && id !== null ? { tab, view: 'view', id, ...query } : null;
+  }
+  if (segments.length === 3 && (segments[2] === 'edit' || segments[2] === 'delete')) {
+    const id = decodeSegment(segments[1]);
+    return id !== null ? { tab, view: segments[2], id, ...query } : null;
+  }
+  return null;
+}
+
+export function buildPath(route: AppRoute): string {
+  if (route.view === 'login') {
+    return route.next ? `/login?${new URLSearchParams({ next: route.next })}` : '/login';
+  }
+  if (route.view === 'trash' || route.view === 'dashboard') {
+    return `/${route.view}`;
+  }
+
+  let path = `/${route.tab}`;
+  if (route.tab === 'all' && route.itemTab && route.view !== 'list' && route.view !== 'new') {
+    path += `/${route.itemTab}`;
+  }
+  if (route.view === 'new') {
+    path += '/new';
+  } else if (route.view === 'view' && route.id) {
+    path += `/${encodeURIComponent(route.id)}`;
+  } else if ((route.view === 'edit' || route.view === 'delete') && route.id) {
+    path += `/${encodeURIComponent(route.id)}/${route.view}`;
+  }
+
+  const params = new URLSearchParams();
+  if (route.sort) {
+    params.set('sort', route.sort.field);
+    params.set('order', route.sort.order);
+  }
+  [...TEXT_FILTERS, ...NUMBER_FILTERS].forEach((key) => {
+    const value = route.filters[key];
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  if (route.page > 1) {
+    params.set('page', String(route.page));
+  }
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
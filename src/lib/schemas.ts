@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+// Validation rules shared by the forms and the import flow
+
+// Announced titles may be entered a few years ahead, but no further
+const MAX_YEARS_AHEAD = 5;
+const maxYear = new Date().getFullYear() + MAX_YEARS_AHEAD;
+
+const year = (label: string) => z.number()
+  .int()
+  .min(1900, `${label} must be after 1900`)
+  .max(maxYear, `${label} cannot be later than ${maxYear}`);
+
+const posterUrl = z.url({ protocol: /^https?$/, message: 'Poster must be an http(s) URL' }).optional();
+
+export const movieSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  type: z.literal('movie').default('movie'),
+  director: z.string().min(1, 'Director is required'),
+  budget: z.number().min(0, 'Budget must be positive'),
+  location: z.string().min(1, 'Location is required'),
+  duration: z.number().int().min(1, 'Duration must be positive'),
+  year: year('Year'),
+  poster: posterUrl,
+});
+
+export const tvShowSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  type: z.literal('tvshow').default('tvshow'),
+  director: z.string().min(1, 'Director is required'),
+  budget: z.number().min(0, 'Budget must be positive'),
+  location: z.string().min(1, 'Location is required'),
+  duration: z.number().int().min(1, 'Duration must be positive'),
+  startYear: year('Start year'),
+  endYear: year('End year').optional(),
+  poster: posterUrl,
+}).refine(
+  show => show.endYear === undefined || show.endYear >= show.startYear,
+  { message: 'End year cannot be before the start year', path: ['endYear'] }
+);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the YYYY-MM-DD format');
+
+export const seasonSchema = z.object({
+  seasonNumber: z.number().int().min(1, 'Season number must be at least 1'),
+  episodeCount: z.number().int().min(0, 'Episode count cannot be negative'),
+  premiereDate: isoDate.optional(),
+  finaleDate: isoDate.optional(),
+}).refine(
+  season => !season.premiereDate || !season.finaleDate || season.finaleDate >= season.premiereDate,
+  { message: 'Finale date must be on or after the premiere date', path: ['finaleDate'] }
+);
+
+export const episodeSchema = z.object({
+  episodeNumber: z.number().int().min(1, 'Episode number must be at least 1'),
+  title: z.string().min(1, 'Title is required'),
+  airDate: isoDate.optional(),
+  director: z.string().optional(),
+});
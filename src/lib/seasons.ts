@@ -0,0 +1,114 @@
+import { episodeApi, seasonApi } from './api';
+import { toApiError } from './errors';
+import type { ApiError } from './errors';
+import type { Episode, EpisodeFormData, Season, SeasonFormData } from '../types';
+
+// Seasons (with their episodes) per TV show. A show's seasons are fetched the
+// first time its row is expanded; mutations apply the server's response to
+// the cached entry, so every open view of the show stays in sync.
+
+export interface SeasonEntry {
+  seasons: Season[];
+  isLoading: boolean;
+  error?: ApiError;
+}
+
+const entries = new Map<string, SeasonEntry>();
+const listeners = new Set<() => void>();
+
+const bySeasonNumber = (a: Season, b: Season) => a.seasonNumber - b.seasonNumber;
+const byEpisodeNumber = (a: Episode, b: Episode) => a.episodeNumber - b.episodeNumber;
+
+function emit() {
+  listeners.forEach(listener => listener());
+}
+
+function setEntry(showId: string, patch: Partial<SeasonEntry>) {
+  const current = entries.get(showId) ?? { seasons: [], isLoading: false };
+  entries.set(showId, { ...current, ...patch });
+  emit();
+}
+
+function updateSeasons(showId: string, fn: (seasons: Season[]) => Season[]) {
+  const entry = entries.get(showId);
+  if (entry) {
+    setEntry(showId, { seasons: fn(entry.seasons).sort(bySeasonNumber) });
+  }
+}
+
+function updateEpisodes(showId: string, seasonId: string, fn: (episodes: Episode[]) => Episode[]) {
+  updateSeasons(showId, seasons => seasons.map(season =>
+    season.id === seasonId ? { ...season, episodes: fn(season.episodes).sort(byEpisodeNumber) } : season
+  ));
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSeasonEntry(showId: string): SeasonEntry | undefined {
+  return entries.get(showId);
+}
+
+export async function fetchSeasons(showId: string) {
+  setEntry(showId, { isLoading: true, error: undefined });
+  try {
+    const response = await seasonApi.getAll(showId);
+    const seasons = response.data.map(season => ({
+      ...season,
+      episodes: [...(season.episodes ?? [])].sort(byEpisodeNumber),
+    }));
+    setEntry(showId, { seasons: seasons.sort(bySeasonNumber), isLoading: false });
+  } catch (error) {
+    const apiError = toApiError(error);
+    setEntry(showId, { isLoading: false, error: apiError });
+    throw apiError;
+  }
+}
+
+export async function createSeason(showId: string, data: SeasonFormData): Promise<Season> {
+  const response = await seasonApi.create(showId, data);
+  const season = { ...response.data, episodes: response.data.episodes ?? [] };
+  updateSeasons(showId, seasons => [...seasons, season]);
+  return season;
+}
+
+export async function updateSeason(showId: string, seasonId: string, data: SeasonFormData): Promise<Season> {
+  const response = await seasonApi.update(showId, seasonId, data);
+  updateSeasons(showId, seasons => seasons.map(season =>
+    season.id === seasonId ? { ...response.data, episodes: response.data.episodes ?? season.episodes } : season
+  ));
+  return response.data;
+}
+
+export async function deleteSeason(showId: string, seasonId: string) {
+  await seasonApi.delete(showId, seasonId);
+  updateSeasons(showId, seasons => seasons.filter(season => season.id !== seasonId));
+}
+
+export async function createEpisode(showId: string, seasonId: string, data: EpisodeFormData): Promise<Episode> {
+  const response = await episodeApi.create(showId, seasonId, data);
+  updateEpisodes(showId, seasonId, episodes => [...episodes, response.data]);
+  return response.data;
+}
+
+export async function updateEpisode(
+  showId: string,
+  seasonId: string,
+  episodeId: string,
+  data: EpisodeFormData
+): Promise<Episode> {
+  const response = await episodeApi.update(showId, seasonId, episodeId, data);
+  updateEpisodes(showId, seasonId, episodes =>
+    episodes.map(episode => (episode.id === episodeId ? response.data : episode))
+  );
+  return response.data;
+}
+
+export async function deleteEpisode(showId: string, seasonId: string, episodeId: string) {
+  await episodeApi.delete(showId, seasonId, episodeId);
+  updateEpisodes(showId, seasonId, episodes => episodes.filter(episode => episode.id !== episodeId));
+}
@@ -0,0 +1,34 @@
+// Keyboard shortcuts, listed in the help overlay. Page-wide ones are handled
+// by useShortcuts; the row ones by the table while a row has focus.
+
+export interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+export const PAGE_SHORTCUTS: Shortcut[] = [
+  { keys: ['n'], description: 'Add a new item' },
+  { keys: ['/'], description: 'Search the list' },
+  { keys: ['?'], description: 'Show these shortcuts' },
+];
+
+export const ROW_SHORTCUTS: Shortcut[] = [
+  { keys: ['\u2191', '\u2193'], description: 'Move to the previous or next row' },
+  { keys: ['Home', 'End'], description: 'Move to the first or last loaded row' },
+  { keys: ['\u2190', '\u2192'], description: 'Move between the row and its editable cells (Enter edits a cell)' },
+  { keys: ['Enter'], description: 'Open the row' },
+  { keys: ['e'], description: 'Edit the row' },
+  { keys: ['Del'], description: 'Delete the row' },
+  { keys: ['Space'], description: 'Select or deselect the row' },
+];
+
+// Keys typed into fields are text, not shortcuts. Checkboxes and radios
+// don't take text, so shortcuts still work on them.
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return !['checkbox', 'radio'].includes(target.type);
+  return target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Shortcuts only take the plain key (Shift is allowed, as "?" needs it)
+export const hasModifier = (e: KeyboardEvent | React.KeyboardEvent) => e.ctrlKey || e.metaKey || e.altKey;
@@ -0,0 +1,113 @@
+import { statsApi } from './api';
+import { toApiError } from './errors';
+import type { ApiError } from './errors';
+import { fetchAllItems } from './exporter';
+import { showStatus } from './format';
+import type { MediaItem, MediaStats } from '../types';
+
+// Dashboard aggregates. They come from the stats endpoint when the server has
+// one; otherwise every title is fetched and they're computed here.
+
+export const TOP_DIRECTORS = 10;
+export const TOP_LOCATIONS = 10;
+
+export interface StatsEntry {
+  stats?: MediaStats;
+  // Where the numbers came from, shown under the dashboard
+  source?: 'server' | 'client';
+  isLoading: boolean;
+  // Titles fetched so far when computing in the browser
+  fetchedCount?: number;
+  error?: ApiError;
+}
+
+let entry: StatsEntry = { isLoading: false };
+let latestRequest = 0;
+const listeners = new Set<() => void>();
+
+function setEntry(patch: Partial<StatsEntry>) {
+  entry = { ...entry, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getStatsEntry(): StatsEntry {
+  return entry;
+}
+
+const itemYear = (item: MediaItem) => (item.type === 'movie' ? item.year : item.startYear);
+
+// Counts (and sums budgets) per key, largest count first
+function tally(items: MediaItem[], keyOf: (item: MediaItem) => string) {
+  const groups = new Map<string, { count: number; totalBudget: number }>();
+  items.forEach(item => {
+    const key = keyOf(item).trim();
+    if (!key) return;
+    const group = groups.get(key) ?? { count: 0, totalBudget: 0 };
+    groups.set(key, { count: group.count + 1, totalBudget: group.totalBudget + (item.budget || 0) });
+  });
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...group }))
+    .sort((a, b) => b.count - a.count || b.totalBudget - a.totalBudget || a.key.localeCompare(b.key));
+}
+
+export function computeStats(items: MediaItem[], currentYear = new Date().getFullYear()): MediaStats {
+  const budgetByYear = tally(items.filter(item => itemYear(item)), item => String(itemYear(item)))
+    .map(({ key, count, totalBudget }) => ({ year: Number(key), count, totalBudget, averageBudget: totalBudget / count }))
+    .sort((a, b) => a.year - b.year);
+
+  const showStatusCounts = { upcoming: 0, running: 0, ended: 0 };
+  items.forEach(item => {
+    if (item.type === 'tvshow') showStatusCounts[showStatus(item, currentYear)]++;
+  });
+
+  return {
+    budgetByYear,
+    budgetVsDuration: items
+      .filter(item => item.budget > 0 && item.duration > 0)
+      .map(({ id, title, type, budget, duration }) => ({ id, title, type, budget, duration })),
+    topDirectors: tally(items, item => item.director)
+      .slice(0, TOP_DIRECTORS)
+      .map(({ key, count, totalBudget }) => ({ director: key, count, totalBudget })),
+    locations: tally(items, item => item.location)
+      .slice(0, TOP_LOCATIONS)
+      .map(({ key, count }) => ({ location: key, count })),
+    showStatus: showStatusCounts,
+  };
+}
+
+export async function fetchStats() {
+  const requestId = ++latestRequest;
+  setEntry({ isLoading: true, error: undefined, fetchedCount: undefined });
+  try {
+    let stats: MediaStats;
+    let source: StatsEntry['source'];
+    try {
+      stats = (await statsApi.get()).data;
+      source = 'server';
+    } catch (error) {
+      // Without a reachable server the fallback can't work either
+      if (toApiError(error).kind === 'network') throw error;
+      const items = await fetchAllItems('all', {}, count => {
+        if (requestId === latestRequest) setEntry({ fetchedCount: count });
+      });
+      stats = computeStats(items);
+      source = 'client';
+    }
+    if (requestId === latestRequest) {
+      setEntry({ stats, source, isLoading: false });
+    }
+  } catch (error) {
+    const apiError = toApiError(error);
+    if (requestId === latestRequest) {
+      setEntry({ isLoading: false, error: apiError });
+    }
+    throw apiError;
+  }
+}
@@ -0,0 +1,83 @@
+import { movieApi, tvShowApi } from './api';
+import { toApiError } from './errors';
+import type { ApiError } from './errors';
+import { invalidateTab, tabForItem } from './mediaCache';
+import { compareItems, emptyCursor, takeMerged } from './mergedList';
+import type { MergedCursor, PageFetcher } from './mergedList';
+import type { MediaItem } from '../types';
+
+// Soft-deleted movies and TV shows, most recently deleted first. The trash is
+// fetched afresh whenever it's opened, since deletions happen elsewhere.
+
+const TRASH_PAGE_SIZE = 20;
+
+export interface TrashEntry {
+  items: MediaItem[];
+  hasMore: boolean;
+  isLoading: boolean;
+  error?: ApiError;
+}
+
+let entry: TrashEntry = { items: [], hasMore: true, isLoading: false };
+let cursor: MergedCursor = emptyCursor();
+let latestRequest = 0;
+const listeners = new Set<() => void>();
+
+const trashPages: PageFetcher = (tab, page, limit) =>
+  (tab === 'movies' ? movieApi : tvShowApi).getTrash(page, limit);
+
+const byDeletedAt = compareItems({ field: 'deletedAt', order: 'desc' });
+
+function setEntry(patch: Partial<TrashEntry>) {
+  entry = { ...entry, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getTrashEntry(): TrashEntry {
+  return entry;
+}
+
+// `reset` starts over from the most recent deletion
+export async function fetchTrash(reset: boolean) {
+  const requestId = ++latestRequest;
+  setEntry({ isLoading: true, error: undefined });
+  try {
+    const result = await takeMerged(trashPages, byDeletedAt, reset ? emptyCursor() : cursor, TRASH_PAGE_SIZE, TRASH_PAGE_SIZE);
+    if (requestId !== latestRequest) return;
+
+    cursor = result.cursor;
+    setEntry({
+      items: reset ? result.items : [...entry.items, ...result.items],
+      hasMore: result.hasMore,
+      isLoading: false,
+    });
+  } catch (error) {
+    const apiError = toApiError(error);
+    if (requestId === latestRequest) {
+      setEntry({ isLoading: false, error: apiError });
+    }
+    throw apiError;
+  }
+}
+
+const removeFromTrash = (id: string) => setEntry({ items: entry.items.filter(item => item.id !== id) });
+
+// A restored item reappears in the lists of its tab, wherever their sort puts it
+export async function restoreFromTrash(item: MediaItem): Promise<MediaItem> {
+  const response = item.type === 'movie' ? await movieApi.restore(item.id) : await tvShowApi.restore(item.id);
+  removeFromTrash(item.id);
+  invalidateTab(tabForItem(item));
+  return response.data;
+}
+
+export async function purgeFromTrash(item: MediaItem) {
+  await (item.type === 'movie' ? movieApi.purge(item.id) : tvShowApi.purge(item.id));
+  removeFromTrash(item.id);
+}
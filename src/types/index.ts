@@ -9,6 +9,8 @@ export interface BaseItem {
   poster?: string;
   createdAt: string;
   updatedAt: string;
+  // Set while the item is in the trash
+  deletedAt?: string;
 }
 
 export interface Movie extends BaseItem {
@@ -24,7 +26,129 @@ export interface TVShow extends BaseItem {
 
 export type MediaItem = Movie | TVShow;
 
+export interface Episode {
+  id: string;
+  seasonId: string;
+  episodeNumber: number;
+  title: string;
+  airDate?: string;
+  // Only set when it differs from the show's director
+  director?: string;
+}
+
+export interface Season {
+  id: string;
+  showId: string;
+  seasonNumber: number;
+  episodeCount: number;
+  premiereDate?: string;
+  finaleDate?: string;
+  episodes: Episode[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export type MovieFormData = Omit<Movie, 'id' | 'createdAt' | 'updatedAt'>;
 export type TVShowFormData = Omit<TVShow, 'id' | 'createdAt' | 'updatedAt'>;
+export type MediaFormData = MovieFormData | TVShowFormData;
+// A partial update names only the fields it changes; null clears an optional field
+export type FieldChanges<T> = { [K in keyof T]?: T[K] | null };
+export type SeasonFormData = Pick<Season, 'seasonNumber' | 'episodeCount' | 'premiereDate' | 'finaleDate'>;
+export type EpisodeFormData = Omit<Episode, 'id' | 'seasonId'>;
+
+// Fields that can be set on many items at once from the bulk edit dialog
+export type BulkEditChanges = Partial<Pick<BaseItem, 'director' | 'location'>>;
+
+export interface BulkItemResult<T> {
+  id: string;
+  success: boolean;
+  error?: string;
+  item?: T;
+}
+
+export type ColumnValue = string | number | undefined;
+
+// Aggregates for the dashboard. Movies count under their release year and
+// shows under their start year; show budgets are per episode.
+export interface MediaStats {
+  budgetByYear: { year: number; count: number; totalBudget: number; averageBudget: number }[];
+  budgetVsDuration: { id: string; title: string; type: BaseItem['type']; budget: number; duration: number }[];
+  topDirectors: { director: string; count: number; totalBudget: number }[];
+  locations: { location: string; count: number }[];
+  showStatus: { upcoming: number; running: number; ended: number };
+}
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
 
-export type ColumnValue = string | number | undefined; 
\ No newline at end of file
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+}
+
+// One saved state of an item, as recorded by the server on create and update
+export interface ItemVersion {
+  id: string;
+  // The whole item as it was after this change
+  snapshot: MediaItem;
+  author: Pick<User, 'id' | 'name'>;
+  createdAt: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+// A collection on the server
+export type MediaTab = 'movies' | 'tvshows';
+// A list the user can browse: one collection, or both merged
+export type ListTab = MediaTab | 'all';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortState {
+  field: string;
+  order: SortOrder;
+}
+
+export interface MediaFilters {
+  search?: string;
+  minBudget?: number;
+  maxBudget?: number;
+  minDuration?: number;
+  maxDuration?: number;
+  minYear?: number;
+  maxYear?: number;
+  location?: string;
+}
+
+export interface Column {
+  header: string;
+  accessor: keyof MediaItem;
+  sortable?: boolean;
+  render?: (value: ColumnValue, item: MediaItem) => string;
+  // Shown as a pill in the table
+  badge?: boolean;
+}
+
+// A user's arrangement of one tab's columns, which are identified by accessor
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  // Widths in pixels of resized columns; the rest size to their content
+  widths: Record<string, number>;
+  // Keeps the title first and visible while scrolling sideways
+  pinTitle: boolean;
+}
+
+export interface UserPreferences {
+  columnLayouts?: Partial<Record<ListTab, ColumnLayout>>;
+}